@@ -0,0 +1,82 @@
+// src/app/(general)/admin/page.tsx
+"use client";
+
+/**
+ * CONSOLA DE ADMINISTRACIÓN
+ * Ruta: /admin
+ *
+ * Responsabilidades:
+ * - Solo para admins (can(user, "admin:access"), permissions.ts); el resto
+ *   ve un aviso. middleware.ts ya exige sesión para /admin.
+ * - Tres pestañas, cada una con su tabla (búsqueda, orden, selección):
+ *     * Usuarios      → eliminar en lote.
+ *     * Eventos       → eliminar en lote y reasignar el creador.
+ *     * Inscripciones → desinscribir (forzado) por fila o en lote.
+ *   Toda acción destructiva pide confirmación (ConfirmDialog).
+ *
+ * Conexiones:
+ * - AdminUsersPanel, AdminEventsPanel, AdminRegistrationsPanel.
+ */
+
+import { useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { can } from "@/lib/permissions";
+import AdminUsersPanel from "@/components/AdminUsersPanel";
+import AdminEventsPanel from "@/components/AdminEventsPanel";
+import AdminRegistrationsPanel from "@/components/AdminRegistrationsPanel";
+
+type AdminTab = "users" | "events" | "registrations";
+
+const TABS: { id: AdminTab; label: string }[] = [
+    { id: "users", label: "Usuarios" },
+    { id: "events", label: "Eventos" },
+    { id: "registrations", label: "Inscripciones" },
+];
+
+export default function AdminPage() {
+    const user = useAuthStore((state) => state.user);
+    const [tab, setTab] = useState<AdminTab>("users");
+
+    if (!can(user, "admin:access")) {
+        return (
+            <main className="min-h-screen bg-gray-100">
+                <div className="max-w-4xl mx-auto py-6">
+                    <h1 className="text-2xl font-bold mb-4">Administración</h1>
+                    <p className="text-sm text-gray-600">
+                        Solo un administrador puede acceder a esta sección.
+                    </p>
+                </div>
+            </main>
+        );
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-100">
+            <div className="max-w-4xl mx-auto py-6">
+                <h1 className="text-2xl font-bold mb-4">Administración</h1>
+
+                <div role="tablist" className="flex gap-2 mb-3 text-sm">
+                    {TABS.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            type="button"
+                            role="tab"
+                            aria-selected={tab === id}
+                            onClick={() => setTab(id)}
+                            className={`border rounded px-3 py-1 ${
+                                tab === id ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === "users" && <AdminUsersPanel />}
+                {tab === "events" && <AdminEventsPanel />}
+                {tab === "registrations" && <AdminRegistrationsPanel />}
+            </div>
+        </main>
+    );
+}
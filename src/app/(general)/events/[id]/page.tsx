@@ -7,36 +7,56 @@
  *
  * Responsabilidades:
  * - Leer eventId desde la URL.
- * - Verificar autenticación (token).
- * - Cargar detalle del evento (GET /events/{id}).
- * - Cargar inscripciones a ese evento (GET /registrations?eventId=...).
- * - Mostrar botón para inscribirse si el usuario no está inscrito todavía.
- * - (Opcional) Permitir editar/eliminar evento si el usuario es el creador.
+ * - Leer token + usuario desde authStore (la ruta ya la protege middleware.ts).
+ * - Cargar detalle del evento (GET /events/{id}) e inscripciones a ese
+ *   evento (GET /registrations?eventId=...) desde la caché compartida: al
+ *   volver a un evento ya visitado se muestra al instante y se revalida.
+ * - Mostrar botón para inscribirse o salir del evento (toggle).
+ * - Mostrar la lista de asistentes (nombre, ciudad, fecha de inscripción).
+ *   Los usuarios se resuelven en lote y con caché (resolveUsers), no uno por uno.
+ *   El creador puede ordenarla y exportarla a CSV.
+ * - "Añadir al calendario": descarga el evento como .ics (ical.ts).
+ * - Si el usuario puede gestionar el evento (su creador organizador o un
+ *   admin; can(user, "event:update" | "event:delete", event)):
+ *     * modo edición inline con EventForm (PUT /events/{id}).
+ *     * eliminar con diálogo de confirmación (DELETE /events/{id}) y volver a /events.
+ *   Los demás usuarios nunca ven estos controles.
  *
  * Conexiones:
  * - useAuthStore: token + usuario.
- * - getEventByIdApi: obtener info del evento.
- * - getRegistrationsByEventApi: obtener inscripciones del evento.
- * - createRegistrationApi: inscribir al usuario.
- * - (luego) updateEventApi / deleteEventApi para CRUD completo.
+ * - useEvent / useEventRegistrations (queries.ts): evento + inscripciones.
+ * - RegisterButton: inscribir / desinscribir al usuario
+ *   (createRegistration / deleteRegistration actualizan la caché).
+ * - EventForm: editar el evento (updateEvent).
+ * - DeleteEventButton: eliminar el evento (deleteEvent).
+ * - resolveUsers + AttendeeList: lista de asistentes.
  */
 
-import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
 
 import { useAuthStore } from "@/store/authStore";
-import {
-  getEventByIdApi,
-  getRegistrationsByEventApi,
-  createRegistrationApi,
-} from "@/lib/api";
+import { useEvent, useEventRegistrations } from "@/lib/queries";
 
-import type { Event, Registration } from "@/lib/types";
+import type { Registration, User } from "@/lib/types";
+import { countByCapacity } from "@/lib/capacity";
+import { downloadFile } from "@/lib/csv";
+import { eventsToIcs, ICS_MIME_TYPE } from "@/lib/ical";
+import { can } from "@/lib/permissions";
+import { slugify } from "@/lib/text";
+import { resolveUsers } from "@/lib/userDirectory";
 
+import AttendeeList from "@/components/AttendeeList";
 import AuthUser from "@/components/AuthUser";
+import DeleteEventButton from "@/components/DeleteEventButton";
+import EventForm from "@/components/EventForm";
 import EventItem from "@/components/EventItem";
 import RegisterButton from "@/components/RegisterButton";
 
+// Referencia estable mientras no hay inscripciones en caché (evita que el
+// efecto de resolveUsers se dispare en cada render).
+const EMPTY_REGISTRATIONS: Registration[] = [];
+
 interface EventDetailPageProps {
   params: {
     id: string; // eventId como string
@@ -46,73 +66,71 @@ interface EventDetailPageProps {
 export default function EventDetailPage({ params }: EventDetailPageProps) {
   const router = useRouter();
 
-  const { token, user, hydrateFromStorage } = useAuthStore((state) => ({
-    token: state.token,
-    user: state.user,
-    hydrateFromStorage: state.hydrateFromStorage,
-  }));
-
-  // Estado para el evento
-  const [event, setEvent] = useState<Event | null>(null);
-  // Estado para las inscripciones de este evento
-  const [registrations, setRegistrations] = useState<Registration[]>([]);
-  // Estados de carga y error
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const token = useAuthStore((state) => state.token);
+  const user = useAuthStore((state) => state.user);
 
   const eventId = params.id;
 
-  // 1) Hidratar auth al montar
+  // Evento + inscripciones (se piden en paralelo, cada uno con su clave)
+  const eventQuery = useEvent(eventId);
+  const registrationsQuery = useEventRegistrations(eventId);
+
+  const event = eventQuery.data;
+  const registrations = registrationsQuery.data ?? EMPTY_REGISTRATIONS;
+  const loading = eventQuery.isLoading || registrationsQuery.isLoading;
+  const error =
+    (eventQuery.error && !event) || (registrationsQuery.error && !registrationsQuery.data)
+      ? "No se pudo cargar el evento o sus inscripciones."
+      : null;
+
+  // Usuarios de los asistentes (userId → User)
+  const [usersById, setUsersById] = useState<Record<string, User>>({});
+  // Modo edición (solo para el creador)
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Resolver los usuarios de las inscripciones cada vez que cambian.
+  // resolveUsers usa caché, así que unirse/salir no vuelve a pedir todo.
   useEffect(() => {
-    hydrateFromStorage();
-  }, [hydrateFromStorage]);
-
-  // 2) Si después de hidratar no hay token, redirigimos a login
-  useEffect(() => {
-    if (token === null) {
-      router.replace("/login");
-    }
-  }, [token, router]);
+    if (!token || registrations.length === 0) return;
+
+    let cancelled = false;
+
+    resolveUsers(
+      token,
+      registrations.map((reg) => reg.userId)
+    )
+      .then((users) => {
+        if (!cancelled) setUsersById(users);
+      })
+      .catch(() => {
+        // Si falla, AttendeeList muestra los userId en lugar de nombres.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, registrations]);
+
+  // Inscribirse / salir no necesita handlers: createRegistration y
+  // deleteRegistration actualizan la caché y la lista se re-renderiza sola.
+
+  // Handler de EventForm en modo edición: updateEvent ya dejó el evento
+  // nuevo en caché; solo salimos del modo edición.
+  function handleEventUpdated() {
+    setIsEditing(false);
+  }
 
-  // 3) Cargar evento + inscripciones cuando tenemos token
-  useEffect(() => {
-    if (!token) return;
-
-    async function loadData(currentToken: string) {
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Pedimos en paralelo:
-        // - detalle del evento
-        // - inscripciones de ese evento
-        const [eventData, registrationsData] = await Promise.all([
-          getEventByIdApi(currentToken, eventId),
-          getRegistrationsByEventApi(currentToken, eventId),
-        ]);
-
-        setEvent(eventData);
-        setRegistrations(registrationsData);
-      } catch {
-        setError("No se pudo cargar el evento o sus inscripciones.");
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    loadData(token);
-  }, [token, eventId]);
-
-  // Calculamos si el usuario actual ya está inscrito
-  const currentUserId = user?.userId;
-  const isRegistered = !!(
-    currentUserId &&
-    registrations.some((reg) => reg.userId === currentUserId)
-  );
+  // Handler de DeleteEventButton: el evento ya no existe, volvemos al listado.
+  function handleEventDeleted() {
+    router.replace("/events");
+  }
 
-  // Handler que se ejecuta cuando el usuario se inscribe exitosamente.
-  function handleRegistered(newReg: Registration) {
-    setRegistrations((prev) => [...prev, newReg]);
+  // "Añadir al calendario": el evento como .ics (UID estable por eventId,
+  // así reimportarlo actualiza el evento en vez de duplicarlo).
+  function handleAddToCalendar() {
+    if (!event) return;
+    const ics = eventsToIcs([event], { baseUrl: window.location.origin });
+    downloadFile(`${slugify(event.name, "evento")}.ics`, ics, ICS_MIME_TYPE);
   }
 
   if (loading) {
@@ -138,6 +156,16 @@ export default function EventDetailPage({ params }: EventDetailPageProps) {
   }
 
   const participantsCount = registrations.length;
+  // Con cupo, solo los primeros `capacity` por registeredAt cuentan como
+  // participantes; el resto está en lista de espera.
+  const { confirmed: confirmedCount, waitlisted: waitlistedCount } = countByCapacity(
+    participantsCount,
+    event.capacity
+  );
+
+  // Creador (organizador) o admin, según permissions.ts.
+  const canEdit = can(user, "event:update", event);
+  const canDelete = can(user, "event:delete", event);
 
   return (
     <main className="min-h-screen bg-gray-100">
@@ -146,22 +174,75 @@ export default function EventDetailPage({ params }: EventDetailPageProps) {
 
         <AuthUser />
 
-        {/* Detalle del evento (reutilizamos EventItem como “card” principal) */}
-        <EventItem event={event} participantsCount={participantsCount} />
-
-        {/* Botón para unirse al evento */}
+        {/* Detalle del evento (reutilizamos EventItem como “card” principal),
+            o el formulario de edición si el creador lo activó */}
+        {isEditing ? (
+          <EventForm
+            initialEvent={event}
+            onEventSaved={handleEventUpdated}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <EventItem event={event} participantsCount={participantsCount} />
+        )}
+
+        {/* Acciones del creador / admin */}
+        {(canEdit || canDelete) && !isEditing && (
+          <section className="flex gap-2 mb-2">
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => setIsEditing(true)}
+                className="bg-blue-600 text-white text-sm px-3 py-1 rounded"
+              >
+                Editar evento
+              </button>
+            )}
+            {canDelete && (
+              <DeleteEventButton
+                eventId={event.eventId}
+                eventName={event.name}
+                onDeleted={handleEventDeleted}
+              />
+            )}
+          </section>
+        )}
+
+        {/* Botón para unirse / salir del evento */}
         <RegisterButton
           eventId={event.eventId}
-          isRegistered={isRegistered}
-          onRegistered={handleRegistered}
+          registrations={registrations}
+          capacity={event.capacity}
         />
 
-        {/* Aquí podrías listar participantes si el backend expone sus datos */}
+        <button
+          type="button"
+          onClick={handleAddToCalendar}
+          className="border bg-white text-xs px-2 py-1 rounded mt-2"
+        >
+          Añadir al calendario (.ics)
+        </button>
+
+        {/* Resumen + lista de asistentes */}
         <section className="mt-6">
           <h3 className="font-semibold mb-2 text-sm">
-            Total de participantes: {participantsCount}
+            Total de participantes: {confirmedCount}
           </h3>
-          {/* Podrías mostrar nombres si el backend da info de usuario */}
+          {waitlistedCount > 0 && (
+            <p className="text-xs text-gray-600">
+              En lista de espera: {waitlistedCount}
+            </p>
+          )}
+
+          <div className="mt-2">
+            <AttendeeList
+              registrations={registrations}
+              usersById={usersById}
+              capacity={event.capacity}
+              canManage={canEdit}
+              eventName={event.name}
+            />
+          </div>
         </section>
       </div>
     </main>
@@ -6,112 +6,140 @@
  * Ruta: /events
  *
  * Responsabilidades:
- * - Verificar que el usuario esté autenticado (leer token desde authStore).
- * - Cargar la lista de eventos desde la API (GET /events).
- * - Mostrar filtros por ciudad y fecha.
+ * - La ruta ya la protege middleware.ts; el token lo lee useEvents del store.
+ * - Cargar UNA PÁGINA de eventos desde la API (GET /events?...), con los
+ *   filtros, el orden y la paginación resueltos en el servidor.
+ * - Mostrar filtros (ciudad, rango de fechas, búsqueda, orden).
  * - Mostrar lista de eventos con número de participantes.
- * - Mostrar formulario para crear nuevo evento.
+ * - Mostrar controles de paginación según el total que devuelve la API.
+ * - Mantener filtros, orden y página en la URL (/events?city=Cali&from=...)
+ *   para poder recargar, compartir el enlace y usar atrás/adelante.
+ * - Mostrar formulario para crear nuevo evento (solo organizadores y admins:
+ *   can(user, "event:create"), permissions.ts).
+ * - Exportar el listado filtrado (todas las páginas) a CSV o .ics.
  *
  * Conexiones:
- * - useAuthStore: para token y hydrateFromStorage().
- * - getEventsApi: para obtener eventos.
+ * - useEvents (queries.ts): página de eventos ({ items, total, ... }) desde
+ *   la caché compartida; al crear un evento EventForm invalida el listado.
  * - AuthUser: para mostrar info del usuario logueado.
  * - EventForm: para crear un evento.
  * - EventFilters: para cambiar filtros.
- * - EventList: para renderizar la lista de eventos filtrados.
+ * - EventList: para renderizar la página actual de eventos.
+ * - Pagination: anterior / siguiente.
+ * - EventExportButtons: exportar con los filtros actuales.
+ * - eventsSearchParams: leer / escribir los filtros en la query string.
  */
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 
 import { useAuthStore } from "@/store/authStore";
-import { getEventsApi } from "@/lib/api";
-import type { Event } from "@/lib/types";
+import { useEvents } from "@/lib/queries";
+import { can } from "@/lib/permissions";
+import {
+  DEFAULT_EVENT_FILTERS,
+  buildEventsSearch,
+  parseEventsSearchParams,
+  type EventsFilterParams,
+} from "@/lib/eventsSearchParams";
 
 import AuthUser from "@/components/AuthUser";
+import EventExportButtons from "@/components/EventExportButtons";
 import EventForm from "@/components/EventForm";
 import EventFilters from "@/components/EventFilters";
 import EventList from "@/components/EventList";
+import Pagination from "@/components/Pagination";
 
-export default function EventsPage() {
-  const router = useRouter();
+// Eventos por página.
+const PAGE_SIZE = 10;
 
-  // Leemos token y función para hidratar desde localStorage
-  const { token, hydrateFromStorage } = useAuthStore((state) => ({
-    token: state.token,
-    hydrateFromStorage: state.hydrateFromStorage,
-  }));
+// Espera antes de escribir en la URL (y pedir a la API) mientras el usuario
+// escribe en los filtros.
+const FILTER_DEBOUNCE_MS = 300;
 
-  // Lista completa de eventos tal como viene de la API
-  const [events, setEvents] = useState<Event[]>([]);
-
-  // Filtros
-  const [cityFilter, setCityFilter] = useState<string>("");
-  const [dateFilter, setDateFilter] = useState<string>(""); // puedes usar YYYY-MM-DD
+// useSearchParams exige un <Suspense> por encima para que Next pueda
+// prerenderizar la página; por eso el contenido vive en EventsContent.
+export default function EventsPage() {
+  return (
+    <Suspense>
+      <EventsContent />
+    </Suspense>
+  );
+}
 
-  // Estados de carga y error
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+function EventsContent() {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+
+  // Filtros + orden y página actual: la URL es la fuente de verdad.
+  // Memorizamos por el string para no recalcular (ni recargar) en cada render.
+  const searchParams = useSearchParams();
+  const searchKey = searchParams.toString();
+  const { filters, page } = useMemo(
+    () => parseEventsSearchParams(new URLSearchParams(searchKey)),
+    [searchKey]
+  );
 
-  // 1) Al montar, intentamos hidratar sesión desde localStorage
-  useEffect(() => {
-    hydrateFromStorage();
-  }, [hydrateFromStorage]);
+  // Copia editable de los filtros para que los inputs respondan al instante;
+  // se escribe en la URL después de FILTER_DEBOUNCE_MS.
+  const [draftFilters, setDraftFilters] = useState<EventsFilterParams>(filters);
+  const debounceRef = useRef<number | null>(null);
 
-  // 2) Si no hay token después de hidratar, mandamos a login
+  // Si la URL cambia desde fuera (atrás/adelante, enlace compartido,
+  // "Limpiar filtros"), los inputs vuelven a reflejarla.
   useEffect(() => {
-    if (token === null) {
-      router.replace("/login");
-    }
-  }, [token, router]);
+    setDraftFilters(filters);
+  }, [filters]);
 
-  // 3) Cargar eventos cuando tengamos token
+  // Cancelar un debounce pendiente al desmontar.
   useEffect(() => {
-    if (!token) return;
-
-    async function loadEvents(currentToken: string) {
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Llamada a la API: GET /events
-        const data = await getEventsApi(currentToken);
-        setEvents(data);
-      } catch {
-        setError("No se pudieron cargar los eventos.");
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    loadEvents(token);
-  }, [token]);
-
-  // Handler que se pasa a EventForm.
-  // Cuando se crea un evento nuevo, lo agregamos al estado.
-  function handleEventCreated(newEvent: Event) {
-    setEvents((prev) => [newEvent, ...prev]);
+    return () => {
+      if (debounceRef.current !== null) window.clearTimeout(debounceRef.current);
+    };
+  }, []);
+
+  // Página de eventos para los filtros y la página de la URL
+  // (GET /events?city=...&page=...). Al cambiar de página seguimos mostrando
+  // la anterior hasta que llegue la nueva, sin parpadeo.
+  const {
+    data: eventsPage,
+    error,
+    isLoading: loading,
+  } = useEvents({ ...filters, page, pageSize: PAGE_SIZE }, { keepPreviousData: true });
+
+  const events = eventsPage?.items ?? [];
+  // Total de eventos que cumplen los filtros (todas las páginas)
+  const total = eventsPage?.total ?? 0;
+
+  // Navega a /events con filtros + página. Usamos push (no replace) para que
+  // cada vista quede en el historial y atrás/adelante la restaure.
+  function navigate(newFilters: EventsFilterParams, newPage: number) {
+    router.push(`/events${buildEventsSearch(newFilters, newPage)}`, { scroll: false });
   }
 
   // Handler que se pasa a EventFilters.
-  // Actualiza filtros de ciudad y fecha.
-  function handleFilterChange(filters: { city: string; date: string }) {
-    setCityFilter(filters.city);
-    setDateFilter(filters.date);
+  // Actualiza los inputs ya y la URL tras el debounce, volviendo a la página 1.
+  function handleFilterChange(newFilters: EventsFilterParams) {
+    setDraftFilters(newFilters);
+
+    if (debounceRef.current !== null) window.clearTimeout(debounceRef.current);
+    debounceRef.current = window.setTimeout(() => {
+      debounceRef.current = null;
+      navigate(newFilters, 1);
+    }, FILTER_DEBOUNCE_MS);
   }
 
-  // Aplicamos filtros sobre la lista completa de eventos.
-  const filteredEvents = events.filter((event) => {
-    const matchesCity =
-      !cityFilter || event.city.toLowerCase() === cityFilter.toLowerCase();
-
-    // Supongamos que dateFilter viene como "YYYY-MM-DD"
-    // y event.date es un string tipo ISO. Hacemos comparación por "empieza con".
-    const matchesDate =
-      !dateFilter || event.date.startsWith(dateFilter);
+  // "Limpiar filtros": vuelve a /events sin query string.
+  function handleClearFilters() {
+    if (debounceRef.current !== null) window.clearTimeout(debounceRef.current);
+    debounceRef.current = null;
+    setDraftFilters(DEFAULT_EVENT_FILTERS);
+    router.push("/events", { scroll: false });
+  }
 
-    return matchesCity && matchesDate;
-  });
+  function handlePageChange(newPage: number) {
+    navigate(filters, newPage);
+  }
 
   return (
     <main className="min-h-screen bg-gray-100">
@@ -122,28 +150,40 @@ export default function EventsPage() {
         <AuthUser />
 
         {/* Formulario para crear un nuevo evento */}
-        <EventForm onEventSaved={handleEventCreated} />
+        {/* (createEvent invalida la caché: el listado se recarga solo) */}
+        {can(user, "event:create") && <EventForm />}
 
-        {/* Filtros por ciudad y fecha */}
+        {/* Filtros: ciudad, fechas, búsqueda y orden */}
         <EventFilters
-          city={cityFilter}
-          date={dateFilter}
+          filters={draftFilters}
           onChange={handleFilterChange}
+          onClear={handleClearFilters}
         />
 
         {/* Estados de carga y error */}
         {loading && (
           <p className="text-sm text-gray-500 mt-2">Cargando eventos...</p>
         )}
-        {error && (
+        {/* Si ya había datos en caché y falla la revalidación, seguimos
+            mostrando los datos en lugar del error. */}
+        {!!error && !eventsPage && (
           <p className="text-sm text-red-600 mt-2">
-            {error}
+            No se pudieron cargar los eventos.
           </p>
         )}
 
-        {/* Lista de eventos filtrados */}
-        {!loading && !error && (
-          <EventList events={filteredEvents} />
+        {/* Página actual de eventos + paginación */}
+        {eventsPage && (
+          <>
+            {total > 0 && <EventExportButtons filters={filters} />}
+            <EventList events={events} />
+            <Pagination
+              page={page}
+              pageSize={PAGE_SIZE}
+              total={total}
+              onPageChange={handlePageChange}
+            />
+          </>
         )}
       </div>
     </main>
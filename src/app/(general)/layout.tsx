@@ -8,19 +8,33 @@
 //   - /events
 //   - /events/[id]
 //   - /profile
-//   - /users/new
+//   - /users, /users/[id], /users/new
+//   - /admin
+//   - /feed
+//   - /posts/[id]
 //
 // Responsabilidad:
 // - Definir un "marco" visual común para estas páginas.
-// - (Opcional) Mostrar un navbar simple con enlaces básicos.
+// - Mostrar el navbar (<NavBar />, componente cliente: depende de la sesión
+//   y de la ruta actual, así que no puede renderizarse aquí en el servidor).
 //
 // Importante:
-// - NO metemos lógica de autenticación aquí; esa vive en cada página
-//   usando useAuthStore y redirecciones.
+// - NO metemos lógica de autenticación aquí ni en cada página: las rutas
+//   protegidas las cuida middleware.ts en el servidor (cookie de sesión →
+//   /login?next=...), y las páginas solo leen token / user de useAuthStore.
+// - <SessionWatcher />, un componente cliente sin UI, cierra la sesión cuando
+//   el token expira (401 o exp del JWT) o se cierra en otra pestaña.
+// - <Toaster /> pinta los avisos flotantes (ej. una acción optimista que falló).
+// - <OutboxBanner /> muestra "sin conexión" / acciones pendientes de sincronizar
+//   y las reenvía cuando vuelve la conexión.
 // - Este layout es un Server Component (no usamos hooks), por eso NO lleva "use client".
 
 import type { ReactNode } from "react";
-import Link from "next/link";
+
+import NavBar from "@/components/NavBar";
+import OutboxBanner from "@/components/OutboxBanner";
+import SessionWatcher from "@/components/SessionWatcher";
+import Toaster from "@/components/Toaster";
 
 export const metadata = {
   title: "Zona general",
@@ -31,33 +45,20 @@ export default function GeneralLayout({ children }: { children: ReactNode }) {
   return (
     <html lang="es">
       <body className="bg-gray-100">
-        {/* Navbar muy simple, suficiente para navegar en el parcial */}
-        <header className="bg-white border-b mb-4">
-          <nav className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between">
-            <div className="font-semibold text-sm">
-              Gestor de eventos
-            </div>
-            <div className="flex gap-3 text-sm">
-              <Link href="/events" className="hover:underline">
-                Eventos
-              </Link>
-              <Link href="/profile" className="hover:underline">
-                Perfil
-              </Link>
-              <Link href="/users/new" className="hover:underline">
-                Nuevo usuario
-              </Link>
-              <Link href="/login" className="hover:underline">
-                Login
-              </Link>
-            </div>
-          </nav>
-        </header>
+        <SessionWatcher />
+
+        {/* Navbar según la sesión (isla cliente: usa el store y la ruta) */}
+        <NavBar />
+
+        {/* Sin conexión / acciones pendientes de sincronizar */}
+        <OutboxBanner />
 
         {/* Contenido específico de cada página */}
         <div className="max-w-4xl mx-auto px-4">
           {children}
         </div>
+
+        <Toaster />
       </body>
     </html>
   );
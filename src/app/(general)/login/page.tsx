@@ -6,9 +6,13 @@
 // Responsabilidades en este proyecto de EVENTOS:
 //  - Mostrar formulario de email + contraseña.
 //  - Enviar credenciales a la API (loginApi → POST /login).
+//  - Guardar el token en la cookie httpOnly de sesión (POST /api/session),
+//    que es la que mira middleware.ts para proteger las demás rutas.
 //  - Guardar token y usuario en el store global (useAuthStore).
 //  - Redirigir a /events si el login es exitoso.
 //  - Si ya hay token (usuario logueado), redirigir automáticamente a /events.
+//  - Si la URL trae ?next=/ruta (sesión expirada), volver a esa ruta en lugar
+//    de /events.
 //
 // Conexiones:
 //  - loginApi (src/lib/api.ts): hace la llamada real al backend.
@@ -18,28 +22,40 @@
 "use client";
 // Página cliente porque usamos hooks y router.
 
-import { FormEvent, useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { FormEvent, Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 
 // Función de API que hace la petición POST /login al backend.
 import { loginApi } from "@/lib/api";
+import { getErrorMessage } from "@/lib/errors";
+import { sanitizeNextPath, startServerSession } from "@/lib/session";
 
 // Store global de autenticación: guarda token y usuario.
 import { useAuthStore } from "@/store/authStore";
 
+// useSearchParams exige un <Suspense> por encima para que Next pueda
+// prerenderizar la página; por eso el formulario vive en LoginForm.
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
   // Hook para navegar/redirigir programáticamente
   const router = useRouter();
 
+  // Ruta a la que volver después del login (?next=...), ya validada.
+  const searchParams = useSearchParams();
+  const nextPath = sanitizeNextPath(searchParams.get("next"));
+
   // Obtenemos del store:
   // - token: token actual (string | null)
   // - setAuth: función que guarda token + user en el store y en localStorage
-  // - hydrateFromStorage: intenta recuperar auth desde localStorage al entrar a la página
-  const { token, setAuth, hydrateFromStorage } = useAuthStore((state) => ({
-    token: state.token,
-    setAuth: state.setAuth,
-    hydrateFromStorage: state.hydrateFromStorage,
-  }));
+  const token = useAuthStore((state) => state.token);
+  const setAuth = useAuthStore((state) => state.setAuth);
 
   // Estado local del formulario de login
   const [email, setEmail] = useState("");                  // valor del input de correo
@@ -47,19 +63,30 @@ export default function LoginPage() {
   const [error, setError] = useState<string | null>(null); // mensaje de error para mostrar en pantalla
   const [loading, setLoading] = useState(false);           // indica si estamos enviando la petición al servidor
 
-  // 1) Al montar la página, intentamos hidratar token/usuario desde localStorage.
-  //    Esto es útil si el usuario ya se había logueado en otra sesión.
+  // Si hay token (recién logueado con setAuth, o hidratado por SessionWatcher
+  // desde localStorage), no tiene sentido ver el login: sincronizamos la
+  // cookie httpOnly y redirigimos a next (por defecto /events).
+  //
+  // Sincronizar SIEMPRE la cookie antes de navegar evita un bucle si el
+  // store tiene token pero la cookie se perdió: middleware.ts nos devolvería
+  // a /login una y otra vez.
   useEffect(() => {
-    hydrateFromStorage();
-  }, [hydrateFromStorage]);
+    if (!token) return;
 
-  // 2) Si ya hay token (usuario autenticado), no tiene sentido ver el login,
-  //    así que lo redirigimos automáticamente a la LISTA DE EVENTOS (/events).
-  useEffect(() => {
-    if (token) {
-      router.replace("/events");
-    }
-  }, [token, router]);
+    let cancelled = false;
+
+    startServerSession(token)
+      .then(() => {
+        if (!cancelled) router.replace(nextPath);
+      })
+      .catch(() => {
+        if (!cancelled) setError("No se pudo iniciar la sesión en el servidor.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, router, nextPath]);
 
   // Manejador del submit del formulario de login
   async function handleSubmit(e: FormEvent) {
@@ -84,14 +111,20 @@ export default function LoginPage() {
       // Guardamos token y usuario en el store global y en localStorage.
       // Después, cualquier página (EventsPage, EventDetailPage, ProfilePage)
       // podrá leer este token/usuario.
+      //
+      // La redirección a next (o /events, el “home” de la app) la hace el
+      // efecto de arriba en cuanto cambia el token, después de crear la cookie.
       setAuth(newToken, user);
-
-      // Redirigimos a /events una vez logueados correctamente.
-      // Esa página será el “home” de la app: listado de eventos.
-      router.push("/events");
-    } catch {
-      // Si la API devuelve error (credenciales inválidas, etc.)
-      setError("Credenciales inválidas o error en el servidor.");
+    } catch (err) {
+      // Si la API devuelve error distinguimos credenciales inválidas (401)
+      // de servidor caído o sin conexión.
+      setError(
+        getErrorMessage(
+          err,
+          { unauthorized: "Correo o contraseña incorrectos." },
+          "Credenciales inválidas o error en el servidor."
+        )
+      );
     } finally {
       // Quitamos el estado de carga independientemente del resultado
       setLoading(false);
@@ -3,37 +3,34 @@
 // Responsabilidad:
 //   - Leer el id del post desde la URL
 //   - Verificar que el id sea válido (numérico) o mandar a 404
-//   - Verificar que el usuario esté autenticado (tenga token)
-//   - Llamar a la API para obtener:
-//       * el post específico
-//       * la lista de comentarios del post
+//   - La ruta ya la protege middleware.ts
+//   - Obtener con los hooks de queries.ts (caché compartida):
+//       * el post específico (usePost)
+//       * la lista de comentarios del post (usePostComments)
+//     NewCommentForm agrega los comentarios nuevos a esa misma caché.
 //   - Mostrar el usuario autenticado (AuthUser)
 //   - Mostrar el post (PostItem)
+//   - Si el usuario puede (autor o admin, permissions.ts), botón para
+//     eliminar el post (DeletePostButton) y volver al feed
 //   - Mostrar formulario de nuevo comentario (NewCommentForm)
 //   - Mostrar lista de comentarios (CommentList)
 
 "use client";
 
 import { notFound, useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
 
-// Store global de autenticación
 import { useAuthStore } from "@/store/authStore";
+import { can } from "@/lib/permissions";
 
-// Funciones de API para obtener post y comentarios
-import {
-    getPostByIdApi,
-    getCommentsByPostApi,
-} from "@/lib/api";
-
-// Tipos para tipar el estado local
-import type { Post, Comment } from "@/lib/types";
+// Hooks de datos para obtener post y comentarios
+import { usePost, usePostComments } from "@/lib/queries";
 
 // Componentes de UI que reutilizamos
 import AuthUser from "@/components/AuthUser";
 import PostItem from "@/components/PostItem";
 import NewCommentForm from "@/components/NewCommentForm";
 import CommentList from "@/components/CommentList";
+import DeletePostButton from "@/components/DeletePostButton";
 
 // Tipo de props que Next le pasa a esta página dinámica.
 // 'params.id' viene del segmento [id] de la URL.
@@ -45,26 +42,7 @@ interface PostDetailPageProps {
 
 export default function PostDetailPage({ params }: PostDetailPageProps) {
     const router = useRouter();
-
-    // Desde el store leemos:
-    // - token: para hacer llamadas autenticadas
-    // - hydrateFromStorage: para recuperar auth desde localStorage
-    const { token, hydrateFromStorage } = useAuthStore((state) => ({
-        token: state.token,
-        hydrateFromStorage: state.hydrateFromStorage,
-    }));
-
-    // Estado con el post actual
-    const [post, setPost] = useState<Post | null>(null);
-
-    // Estado con la lista de comentarios del post
-    const [comments, setComments] = useState<Comment[]>([]);
-
-    // Estado de carga
-    const [loading, setLoading] = useState(true);
-
-    // Estado de error
-    const [error, setError] = useState<string | null>(null);
+    const user = useAuthStore((state) => state.user);
 
     // Convertimos el id de la URL (string) a número
     const numericId = Number(params.id);
@@ -74,58 +52,21 @@ export default function PostDetailPage({ params }: PostDetailPageProps) {
         notFound();
     }
 
-    // 1) Hidratar auth desde localStorage al montar la página
-    useEffect(() => {
-        hydrateFromStorage();
-    }, [hydrateFromStorage]);
-
-    // 2) Si no hay token, mandamos a login
-    useEffect(() => {
-        if (token === null) {
-            router.replace("/login");
-        }
-    }, [token, router]);
-
-    // 3) Cargar post + comentarios cuando tengamos token
-    useEffect(() => {
-        if (!token) return;
-
-        // Función asíncrona auxiliar que recibe un token "seguro"
-        async function loadData(currentToken: string) {
-            try {
-                setLoading(true);
-                setError(null);
-
-                // Pedimos al mismo tiempo:
-                // - los datos del post
-                // - los comentarios asociados al post
-                const [postData, commentsData] = await Promise.all([
-                    getPostByIdApi(currentToken, numericId),
-                    getCommentsByPostApi(currentToken, numericId),
-                ]);
-
-                // Guardamos las respuestas en el estado
-                setPost(postData);
-                setComments(commentsData);
-            } catch {
-                // Si algo falla, guardamos un mensaje de error
-                setError("No se pudo cargar el post o sus comentarios.");
-            } finally {
-                // Dejamos de mostrar el estado de carga
-                setLoading(false);
-            }
-        }
-
-        // Llamamos la función con el token actual
-        loadData(token);
-    }, [token, numericId]);
-
-    // Handler que se pasa a NewCommentForm.
-    // Cuando la API crea un nuevo comentario, este callback se ejecuta
-    // para agregar el comentario al estado local sin recargar toda la página.
-    function handleCommentCreated(newComment: Comment) {
-        setComments((prev) => [...prev, newComment]);
-    }
+    // Post + comentarios (cada uno con su clave en la caché)
+    const postQuery = usePost(numericId);
+    const commentsQuery = usePostComments(numericId);
+
+    const post = postQuery.data;
+    const comments = commentsQuery.data ?? [];
+
+    // Estado de carga
+    const loading = postQuery.isLoading || commentsQuery.isLoading;
+
+    // Estado de error (solo si no hay datos que mostrar)
+    const error =
+        (postQuery.error && !post) || (commentsQuery.error && !commentsQuery.data)
+            ? "No se pudo cargar el post o sus comentarios."
+            : null;
 
     // Vista mientras está cargando la información del post
     if (loading) {
@@ -163,8 +104,15 @@ export default function PostDetailPage({ params }: PostDetailPageProps) {
                 {/* Muestra el contenido del post (título, cuerpo, autor, etc.) */}
                 <PostItem post={post} />
 
+                {/* Moderación: el autor o un admin pueden eliminar el post */}
+                {can(user, "post:delete", post) && (
+                    <section className="mb-3">
+                        <DeletePostButton post={post} onDeleted={() => router.replace("/feed")} />
+                    </section>
+                )}
+
                 {/* Formulario para crear un nuevo comentario */}
-                <NewCommentForm postId={numericId} onCommentCreated={handleCommentCreated} />
+                <NewCommentForm postId={numericId} />
 
                 {/* Lista de todos los comentarios del post */}
                 <CommentList comments={comments} />
@@ -8,89 +8,64 @@
  * Responsabilidades:
  * - Mostrar los datos básicos del usuario autenticado.
  * - Mostrar la lista de eventos a los que se ha inscrito ese usuario.
+ * - Permitir salir de cada evento (RegisterButton → DELETE /registrations/{regId}).
+ * - En eventos con cupo, mostrar la posición del usuario en la lista de espera.
+ * - Editar los datos propios (ProfileForm → PATCH /users/{id}) y cambiar la
+ *   contraseña (ChangePasswordForm → PUT /users/{id}/password).
+ * - Enlace de suscripción iCalendar con los eventos unidos, revocable
+ *   (CalendarFeedSection → /api/calendar/feed).
  *
  * Flujo:
- *  1. Lee token y user desde useAuthStore.
- *  2. Si no hay token → redirige a /login.
- *  3. Si hay token y user:
- *      - GET /registrations?userId=...  → inscripciones del usuario.
- *      - GET /events                    → todos los eventos.
+ *  1. Lee user desde useAuthStore.
+ *  2. Sin sesión ni siquiera llegamos aquí: middleware.ts redirige a /login.
+ *  3. Con los hooks de queries.ts (caché compartida con /events y el detalle):
+ *      - useUserRegistrations → GET /registrations?userId=...
+ *      - useEvents()          → GET /events (todos, sin paginar).
  *  4. Cruza ambas listas para saber a qué eventos está inscrito el usuario.
+ *  5. Para los eventos unidos que tienen capacity, JoinedEventActions pide
+ *     GET /registrations?eventId=... (todas las inscripciones del evento),
+ *     necesarias para calcular la posición en la lista de espera.
+ *
+ * Salir de un evento (deleteRegistration) actualiza la caché, así que el
+ * evento desaparece de la lista sin handlers propios.
+ *
+ * Al guardar el perfil, ProfileForm llama a authStore.updateUser: esta
+ * página, NavBar y AuthUser leen user del store y se actualizan solos.
  */
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { useState } from "react";
 
 import { useAuthStore } from "@/store/authStore";
-import { getRegistrationsByUserApi, getEventsApi } from "@/lib/api";
+import { useEventRegistrations, useEvents, useUserRegistrations } from "@/lib/queries";
 import type { Event, Registration } from "@/lib/types";
 import EventList from "@/components/EventList";
+import RegisterButton from "@/components/RegisterButton";
+import ProfileForm from "@/components/ProfileForm";
+import ChangePasswordForm from "@/components/ChangePasswordForm";
+import CalendarFeedSection from "@/components/CalendarFeedSection";
 
 export default function ProfilePage() {
-    const router = useRouter();
+    // Leemos el usuario desde el store global
+    const user = useAuthStore((state) => state.user);
+
+    // Modo edición de los datos personales
+    const [isEditing, setIsEditing] = useState(false);
 
-    // Leemos token, user y función de hidratación desde el store global
-    const { token, user, hydrateFromStorage } = useAuthStore((state) => ({
-        token: state.token,
-        user: state.user,
-        hydrateFromStorage: state.hydrateFromStorage,
-    }));
+    // Inscripciones del usuario + todos los eventos (sin page/pageSize el
+    // backend no pagina)
+    const registrationsQuery = useUserRegistrations(user?.userId ?? null);
+    const eventsQuery = useEvents();
 
-    // Estado para inscripciones y eventos
-    const [registrations, setRegistrations] = useState<Registration[]>([]);
-    const [events, setEvents] = useState<Event[]>([]);
+    const registrations = registrationsQuery.data ?? [];
+    const events = eventsQuery.data?.items ?? [];
 
     // Estados de carga y error
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    // 1) Al montar, intentamos hidratar desde localStorage
-    useEffect(() => {
-        hydrateFromStorage();
-    }, [hydrateFromStorage]);
-
-    // 2) Si después de hidratar NO hay token, mandamos a /login
-    useEffect(() => {
-        if (token === null) {
-            router.replace("/login");
-        }
-    }, [token, router]);
-
-    // 3) Cuando tenemos token Y user, cargamos inscripciones + eventos
-    //
-    // Nota importante:
-    //   - Aquí estaba el error de TypeScript: `user` es User | null.
-    //   - Comprobamos `if (!token || !user) return;` y luego extraemos userId
-    //     en una constante para que dentro de la función async NO sea nullable.
-    useEffect(() => {
-        if (!token || !user) return; // seguridad básica
-
-        const userId = user.userId; // string, ya no puede ser null
-
-        async function loadProfileData(currentToken: string, currentUserId: string) {
-            try {
-                setLoading(true);
-                setError(null);
-
-                // Pedimos en paralelo:
-                //  - las inscripciones de este usuario
-                //  - todos los eventos
-                const [regData, eventsData] = await Promise.all([
-                    getRegistrationsByUserApi(currentToken, currentUserId),
-                    getEventsApi(currentToken),
-                ]);
-
-                setRegistrations(regData);
-                setEvents(eventsData);
-            } catch {
-                setError("No se pudo cargar la información del perfil.");
-            } finally {
-                setLoading(false);
-            }
-        }
-
-        loadProfileData(token, userId);
-    }, [token, user]);
+    const loading = registrationsQuery.isLoading || eventsQuery.isLoading;
+    const error =
+        (registrationsQuery.error && !registrationsQuery.data) ||
+        (eventsQuery.error && !eventsQuery.data)
+            ? "No se pudo cargar la información del perfil."
+            : null;
 
     // Construimos la lista de eventos a los que el usuario se ha unido
     const joinedEvents = events.filter((event) =>
@@ -118,19 +93,52 @@ export default function ProfilePage() {
 
                 {/* Datos básicos del usuario */}
                 <section className="border rounded-md p-4 mb-4 bg-white">
-                    <h2 className="font-semibold mb-2">Datos personales</h2>
-                    <p>
-                        <span className="font-medium">Nombre:</span> {user.name}
-                    </p>
-                    <p>
-                        <span className="font-medium">Email:</span> {user.email}
-                    </p>
-                    <p>
-                        <span className="font-medium">Ciudad:</span> {user.city}
-                    </p>
-                    <p>
-                        <span className="font-medium">ID:</span> {user.userId}
-                    </p>
+                    <div className="flex items-center justify-between mb-2">
+                        <h2 className="font-semibold">Datos personales</h2>
+                        {!isEditing && (
+                            <button
+                                type="button"
+                                onClick={() => setIsEditing(true)}
+                                className="border text-xs px-2 py-1 rounded"
+                            >
+                                Editar
+                            </button>
+                        )}
+                    </div>
+
+                    {isEditing ? (
+                        <ProfileForm
+                            onSaved={() => setIsEditing(false)}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (
+                        <>
+                            <p>
+                                <span className="font-medium">Nombre:</span> {user.name}
+                            </p>
+                            <p>
+                                <span className="font-medium">Email:</span> {user.email}
+                            </p>
+                            <p>
+                                <span className="font-medium">Ciudad:</span> {user.city}
+                            </p>
+                            <p>
+                                <span className="font-medium">ID:</span> {user.userId}
+                            </p>
+                        </>
+                    )}
+                </section>
+
+                {/* Cambio de contraseña */}
+                <section className="border rounded-md p-4 mb-4 bg-white">
+                    <h2 className="font-semibold mb-2">Cambiar contraseña</h2>
+                    <ChangePasswordForm />
+                </section>
+
+                {/* Suscripción de calendario con los eventos unidos */}
+                <section className="border rounded-md p-4 mb-4 bg-white">
+                    <h2 className="font-semibold mb-2">Calendario</h2>
+                    <CalendarFeedSection />
                 </section>
 
                 {loading && (
@@ -155,7 +163,15 @@ export default function ProfilePage() {
                                 Aún no te has inscrito a ningún evento.
                             </p>
                         ) : (
-                            <EventList events={joinedEvents} />
+                            <EventList
+                                events={joinedEvents}
+                                renderActions={(event) => (
+                                    <JoinedEventActions
+                                        event={event}
+                                        userRegistrations={registrations}
+                                    />
+                                )}
+                            />
                         )}
                     </section>
                 )}
@@ -163,3 +179,29 @@ export default function ProfilePage() {
         </main>
     );
 }
+
+// Botón "Salir" de cada evento unido. Con cupo necesita TODAS las
+// inscripciones del evento (lista de espera); sin cupo basta con las del usuario.
+// Mientras cargan las del evento no se pasa capacity: con las del usuario
+// el cupo y la posición en la lista de espera saldrían mal.
+// Es un componente aparte porque los hooks no se pueden llamar dentro de
+// renderActions.
+function JoinedEventActions({
+    event,
+    userRegistrations,
+}: {
+    event: Event;
+    userRegistrations: Registration[];
+}) {
+    const eventRegistrations = useEventRegistrations(
+        event.capacity !== undefined ? event.eventId : null
+    );
+
+    return (
+        <RegisterButton
+            eventId={event.eventId}
+            registrations={eventRegistrations.data ?? userRegistrations}
+            capacity={eventRegistrations.data ? event.capacity : undefined}
+        />
+    );
+}
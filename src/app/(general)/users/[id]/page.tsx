@@ -0,0 +1,143 @@
+// src/app/(general)/users/[id]/page.tsx
+"use client";
+
+/**
+ * PERFIL PÚBLICO DE UN USUARIO
+ * Ruta: /users/[id]
+ *
+ * Responsabilidades:
+ * - Mostrar nombre, email y ciudad del usuario (GET /users/{id}).
+ * - Listar los eventos que creó (GET /events?createdBy=...).
+ * - Listar los eventos a los que se unió (GET /registrations?userId=...
+ *   cruzado con GET /events, igual que ProfilePage).
+ *
+ * Es de solo lectura: para editar los datos propios está /profile.
+ *
+ * Conexiones:
+ * - useUser, useEvents, useUserRegistrations (queries.ts): caché compartida
+ *   con /events y /profile.
+ * - EventList: para renderizar ambas listas de eventos.
+ */
+
+import Link from "next/link";
+
+import { useAuthStore } from "@/store/authStore";
+import { useEvents, useUser, useUserRegistrations } from "@/lib/queries";
+import EventList from "@/components/EventList";
+
+// 'params.id' viene del segmento [id] de la URL.
+interface UserDetailPageProps {
+    params: {
+        id: string; // userId
+    };
+}
+
+export default function UserDetailPage({ params }: UserDetailPageProps) {
+    const userId = params.id;
+    const currentUser = useAuthStore((state) => state.user);
+
+    const userQuery = useUser(userId);
+    const createdQuery = useEvents({ createdBy: userId });
+    const registrationsQuery = useUserRegistrations(userId);
+    // Todos los eventos (sin paginar), para cruzar con las inscripciones.
+    const eventsQuery = useEvents();
+
+    const user = userQuery.data;
+    const createdEvents = createdQuery.data?.items ?? [];
+    const registrations = registrationsQuery.data ?? [];
+    const joinedEvents = (eventsQuery.data?.items ?? []).filter((event) =>
+        registrations.some((reg) => reg.eventId === event.eventId)
+    );
+
+    const eventsLoading =
+        createdQuery.isLoading || registrationsQuery.isLoading || eventsQuery.isLoading;
+    const eventsError =
+        (createdQuery.error && !createdQuery.data) ||
+        (registrationsQuery.error && !registrationsQuery.data) ||
+        (eventsQuery.error && !eventsQuery.data);
+
+    return (
+        <main className="min-h-screen bg-gray-100">
+            <div className="max-w-2xl mx-auto py-6">
+                <Link href="/users" className="text-sm text-blue-700 hover:underline">
+                    ← Volver al directorio
+                </Link>
+
+                {userQuery.isLoading && (
+                    <p className="text-sm text-gray-500 mt-4">Cargando usuario...</p>
+                )}
+
+                {!!userQuery.error && !user && (
+                    <p className="text-sm text-red-600 mt-4">
+                        No se pudo cargar el usuario.
+                    </p>
+                )}
+
+                {user && (
+                    <>
+                        <h1 className="text-2xl font-bold my-4">{user.name}</h1>
+
+                        {/* Datos básicos */}
+                        <section className="border rounded-md p-4 mb-4 bg-white">
+                            <p>
+                                <span className="font-medium">Email:</span> {user.email}
+                            </p>
+                            <p>
+                                <span className="font-medium">Ciudad:</span> {user.city}
+                            </p>
+                            <p>
+                                <span className="font-medium">ID:</span> {user.userId}
+                            </p>
+                            {currentUser?.userId === user.userId && (
+                                <p className="text-xs mt-2">
+                                    Este eres tú.{" "}
+                                    <Link href="/profile" className="text-blue-700 hover:underline">
+                                        Editar mi perfil
+                                    </Link>
+                                </p>
+                            )}
+                        </section>
+
+                        {eventsLoading && (
+                            <p className="text-sm text-gray-500">Cargando eventos...</p>
+                        )}
+
+                        {!!eventsError && (
+                            <p className="text-sm text-red-600">
+                                No se pudieron cargar los eventos del usuario.
+                            </p>
+                        )}
+
+                        {!eventsLoading && !eventsError && (
+                            <>
+                                <section className="mt-4">
+                                    <h2 className="font-semibold mb-2">Eventos creados</h2>
+                                    {createdEvents.length === 0 ? (
+                                        <p className="text-sm text-gray-500">
+                                            No ha creado ningún evento.
+                                        </p>
+                                    ) : (
+                                        <EventList events={createdEvents} />
+                                    )}
+                                </section>
+
+                                <section className="mt-4">
+                                    <h2 className="font-semibold mb-2">
+                                        Eventos a los que se ha unido
+                                    </h2>
+                                    {joinedEvents.length === 0 ? (
+                                        <p className="text-sm text-gray-500">
+                                            No se ha inscrito a ningún evento.
+                                        </p>
+                                    ) : (
+                                        <EventList events={joinedEvents} />
+                                    )}
+                                </section>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </main>
+    );
+}
@@ -7,46 +7,52 @@
  *
  * Requisito del parcial:
  * - "Un usuario debe ser creado por otro usuario."
+ * Con roles, además, solo un admin puede crear usuarios
+ * (can(user, "user:create"), permissions.ts); los demás ven un aviso.
+ * Si el backend no maneja roles (el usuario actual no trae role) no se
+ * muestra ni se envía el campo role.
  *
  * Responsabilidades:
- * - Mostrar formulario con: name, email, city, password.
+ * - Mostrar formulario con: name, email, city, password y role.
  * - Enviar datos a la API (POST /users).
- * - Requiere que el usuario que crea esté autenticado.
+ * - Requiere que el usuario que crea esté autenticado (middleware.ts
+ *   redirige a /login si no hay sesión).
+ * - Modo "Desde CSV" para dar de alta muchos usuarios a la vez
+ *   (UserCsvImport).
  */
 
-import { FormEvent, useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
 
 import { useAuthStore } from "@/store/authStore";
 import { createUserApi } from "@/lib/api";
+import { getErrorMessage } from "@/lib/errors";
+import { can, DEFAULT_ROLE, getRole, ROLE_LABELS, USER_ROLES } from "@/lib/permissions";
+import type { UserRole } from "@/lib/types";
+import UserCsvImport from "@/components/UserCsvImport";
 
-export default function NewUserPage() {
-    const router = useRouter();
+type CreateMode = "single" | "csv";
+
+const MODES: { id: CreateMode; label: string }[] = [
+    { id: "single", label: "Uno a uno" },
+    { id: "csv", label: "Desde CSV" },
+];
 
-    const { token, hydrateFromStorage } = useAuthStore((state) => ({
-        token: state.token,
-        hydrateFromStorage: state.hydrateFromStorage,
-    }));
+export default function NewUserPage() {
+    const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
 
     const [name, setName] = useState("");
     const [email, setEmail] = useState("");
     const [city, setCity] = useState("");
     const [password, setPassword] = useState("");
+    const [role, setRole] = useState<UserRole>(DEFAULT_ROLE);
+    const withRoles = getRole(user) !== null;
+    const [mode, setMode] = useState<CreateMode>("single");
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [successMsg, setSuccessMsg] = useState<string | null>(null);
 
-    useEffect(() => {
-        hydrateFromStorage();
-    }, [hydrateFromStorage]);
-
-    useEffect(() => {
-        if (token === null) {
-            router.replace("/login");
-        }
-    }, [token, router]);
-
     async function handleSubmit(e: FormEvent) {
         e.preventDefault();
         setError(null);
@@ -64,84 +70,152 @@ export default function NewUserPage() {
 
         try {
             setLoading(true);
-            await createUserApi(token, { name, email, city, password });
+            await createUserApi(token, {
+                name,
+                email,
+                city,
+                password,
+                ...(withRoles ? { role } : {}),
+            });
 
             setSuccessMsg("Usuario creado exitosamente.");
             setName("");
             setEmail("");
             setCity("");
             setPassword("");
-        } catch {
-            setError("No se pudo crear el usuario.");
+            setRole(DEFAULT_ROLE);
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    {
+                        conflict: "Ya existe un usuario con ese email.",
+                        forbidden: "Solo un administrador puede crear usuarios.",
+                    },
+                    "No se pudo crear el usuario."
+                )
+            );
         } finally {
             setLoading(false);
         }
     }
 
+    // Sin permiso no mostramos el formulario (la API respondería 403).
+    if (!can(user, "user:create")) {
+        return (
+            <main className="min-h-screen bg-gray-100">
+                <div className="max-w-md mx-auto py-6">
+                    <h1 className="text-2xl font-bold mb-4">Crear nuevo usuario</h1>
+                    <p className="text-sm text-gray-600">
+                        Solo un administrador puede crear usuarios.
+                    </p>
+                </div>
+            </main>
+        );
+    }
+
     return (
         <main className="min-h-screen bg-gray-100">
-            <div className="max-w-md mx-auto py-6">
+            {/* La vista previa del CSV necesita más ancho que el formulario. */}
+            <div className={`${mode === "csv" ? "max-w-3xl" : "max-w-md"} mx-auto py-6`}>
                 <h1 className="text-2xl font-bold mb-4">Crear nuevo usuario</h1>
 
-                <form onSubmit={handleSubmit} className="bg-white p-4 border rounded-md flex flex-col gap-3">
-                    <div className="flex flex-col gap-1">
-                        <label className="text-sm">Nombre</label>
-                        <input
-                            className="border rounded px-2 py-1 text-sm"
-                            value={name}
-                            onChange={(e) => setName(e.target.value)}
-                        />
-                    </div>
-
-                    <div className="flex flex-col gap-1">
-                        <label className="text-sm">Email</label>
-                        <input
-                            type="email"
-                            className="border rounded px-2 py-1 text-sm"
-                            value={email}
-                            onChange={(e) => setEmail(e.target.value)}
-                        />
-                    </div>
-
-                    <div className="flex flex-col gap-1">
-                        <label className="text-sm">Ciudad</label>
-                        <input
-                            className="border rounded px-2 py-1 text-sm"
-                            value={city}
-                            onChange={(e) => setCity(e.target.value)}
-                        />
-                    </div>
-
-                    <div className="flex flex-col gap-1">
-                        <label className="text-sm">Contraseña</label>
-                        <input
-                            type="password"
-                            className="border rounded px-2 py-1 text-sm"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                        />
-                    </div>
-
-                    {error && (
-                        <p className="text-xs text-red-600">
-                            {error}
-                        </p>
-                    )}
-
-                    {successMsg && (
-                        <p className="text-xs text-green-600">
-                            {successMsg}
-                        </p>
-                    )}
-
-                    <button
-                        type="submit"
-                        disabled={loading}
-                        className="bg-blue-600 text-white text-sm px-3 py-2 rounded disabled:opacity-60"
-                    >
-                        {loading ? "Creando..." : "Crear usuario"}
-                    </button>
-                </form>
+                <div className="flex gap-2 mb-3 text-sm">
+                    {MODES.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            type="button"
+                            aria-pressed={mode === id}
+                            onClick={() => setMode(id)}
+                            className={`border rounded px-3 py-1 ${
+                                mode === id ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === "csv" ? (
+                    <UserCsvImport />
+                ) : (
+                    <form onSubmit={handleSubmit} className="bg-white p-4 border rounded-md flex flex-col gap-3">
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm">Nombre</label>
+                            <input
+                                className="border rounded px-2 py-1 text-sm"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                            />
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm">Email</label>
+                            <input
+                                type="email"
+                                className="border rounded px-2 py-1 text-sm"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                            />
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm">Ciudad</label>
+                            <input
+                                className="border rounded px-2 py-1 text-sm"
+                                value={city}
+                                onChange={(e) => setCity(e.target.value)}
+                            />
+                        </div>
+
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm">Contraseña</label>
+                            <input
+                                type="password"
+                                className="border rounded px-2 py-1 text-sm"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                            />
+                        </div>
+
+                        {withRoles && (
+                            <div className="flex flex-col gap-1">
+                                <label className="text-sm">Rol</label>
+                                <select
+                                    className="border rounded px-2 py-1 text-sm"
+                                    value={role}
+                                    onChange={(e) => setRole(e.target.value as UserRole)}
+                                >
+                                    {USER_ROLES.map((option) => (
+                                        <option key={option} value={option}>
+                                            {ROLE_LABELS[option]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {error && (
+                            <p className="text-xs text-red-600">
+                                {error}
+                            </p>
+                        )}
+
+                        {successMsg && (
+                            <p className="text-xs text-green-600">
+                                {successMsg}
+                            </p>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="bg-blue-600 text-white text-sm px-3 py-2 rounded disabled:opacity-60"
+                        >
+                            {loading ? "Creando..." : "Crear usuario"}
+                        </button>
+                    </form>
+                )}
             </div>
         </main>
     );
@@ -0,0 +1,176 @@
+// src/app/(general)/users/page.tsx
+"use client";
+
+/**
+ * DIRECTORIO DE USUARIOS
+ * Ruta: /users
+ *
+ * Responsabilidades:
+ * - Listar los usuarios (GET /users) con link a su perfil público /users/[id].
+ * - Buscar por nombre o email y filtrar por ciudad.
+ * - Paginar el resultado (PAGE_SIZE por página).
+ * - Enlace a "Nuevo usuario" solo si can(user, "user:create") (admin).
+ *
+ * GET /users no acepta filtros ni paginación, así que se pide la lista
+ * completa una vez (useUsers, caché compartida) y la búsqueda, el filtro y
+ * la paginación se resuelven aquí en el cliente.
+ *
+ * Conexiones:
+ * - useUsers (queries.ts).
+ * - Pagination: anterior / siguiente.
+ */
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { useUsers } from "@/lib/queries";
+import { can, ROLE_LABELS } from "@/lib/permissions";
+import { normalizeText } from "@/lib/text";
+import type { User } from "@/lib/types";
+import Pagination from "@/components/Pagination";
+
+// Usuarios por página.
+const PAGE_SIZE = 10;
+
+export default function UsersPage() {
+    const currentUser = useAuthStore((state) => state.user);
+    const { data: users, error, isLoading: loading } = useUsers();
+
+    const [search, setSearch] = useState("");
+    const [city, setCity] = useState("");
+    const [page, setPage] = useState(1);
+
+    // Ciudades disponibles para el filtro, sin repetir y ordenadas.
+    const cities = useMemo(
+        () =>
+            Array.from(new Set((users ?? []).map((user) => user.city))).sort((a, b) =>
+                a.localeCompare(b, "es")
+            ),
+        [users]
+    );
+
+    const filtered = useMemo(
+        () => filterUsers(users ?? [], search, city),
+        [users, search, city]
+    );
+
+    // Si el filtro deja menos páginas que la actual, mostramos la última.
+    const totalPages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+    const currentPage = Math.min(page, totalPages);
+    const pageItems = filtered.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+    function handleSearchChange(value: string) {
+        setSearch(value);
+        setPage(1);
+    }
+
+    function handleCityChange(value: string) {
+        setCity(value);
+        setPage(1);
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-100">
+            <div className="max-w-3xl mx-auto py-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h1 className="text-2xl font-bold">Usuarios</h1>
+                    {can(currentUser, "user:create") && (
+                        <Link href="/users/new" className="text-sm text-blue-700 hover:underline">
+                            Nuevo usuario
+                        </Link>
+                    )}
+                </div>
+
+                {/* Búsqueda y filtro por ciudad */}
+                <section className="border rounded-md p-3 mb-4 bg-white flex flex-wrap gap-3 items-end">
+                    <div className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+                        <label className="text-xs text-gray-600">Buscar</label>
+                        <input
+                            className="border rounded px-2 py-1 text-sm"
+                            placeholder="Nombre o email"
+                            value={search}
+                            onChange={(e) => handleSearchChange(e.target.value)}
+                        />
+                    </div>
+
+                    <div className="flex flex-col gap-1">
+                        <label className="text-xs text-gray-600">Ciudad</label>
+                        <select
+                            className="border rounded px-2 py-1 text-sm"
+                            value={city}
+                            onChange={(e) => handleCityChange(e.target.value)}
+                        >
+                            <option value="">Todas</option>
+                            {cities.map((option) => (
+                                <option key={option} value={option}>
+                                    {option}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </section>
+
+                {/* Estados de carga y error */}
+                {loading && (
+                    <p className="text-sm text-gray-500">Cargando usuarios...</p>
+                )}
+                {!!error && !users && (
+                    <p className="text-sm text-red-600">
+                        No se pudieron cargar los usuarios.
+                    </p>
+                )}
+
+                {users && filtered.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                        Ningún usuario coincide con la búsqueda.
+                    </p>
+                )}
+
+                {/* Página actual + paginación */}
+                {pageItems.length > 0 && (
+                    <>
+                        <ul className="flex flex-col gap-2">
+                            {pageItems.map((user) => (
+                                <li key={user.userId} className="border rounded-md p-3 bg-white">
+                                    <Link
+                                        href={`/users/${user.userId}`}
+                                        className="font-semibold hover:underline"
+                                    >
+                                        {user.name}
+                                    </Link>
+                                    <p className="text-xs text-gray-600">
+                                        {user.email} · {user.city}
+                                        {user.role && ` · ${ROLE_LABELS[user.role]}`}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                        <Pagination
+                            page={currentPage}
+                            pageSize={PAGE_SIZE}
+                            total={filtered.length}
+                            onPageChange={setPage}
+                        />
+                    </>
+                )}
+            </div>
+        </main>
+    );
+}
+
+// Usuarios cuyo nombre o email contiene search y, si hay, de esa ciudad.
+// Ordenados por nombre.
+function filterUsers(users: User[], search: string, city: string): User[] {
+    const term = normalizeText(search.trim());
+
+    return users
+        .filter(
+            (user) =>
+                (!city || user.city === city) &&
+                (!term ||
+                    normalizeText(user.name).includes(term) ||
+                    normalizeText(user.email).includes(term))
+        )
+        .sort((a, b) => a.name.localeCompare(b.name, "es"));
+}
@@ -0,0 +1,100 @@
+// src/app/api/calendar/[feed]/route.ts
+//
+// FEED iCalendar DE LOS EVENTOS DE UN USUARIO
+// Ruta: /api/calendar/{userId}.ics?token=<token del feed>
+//
+// Es la URL a la que se suscriben Google Calendar, Thunderbird, etc. No hay
+// sesión: el token del feed (ver _lib/feeds.ts) es la credencial. Con token
+// incorrecto, revocado o sin feed responde 404, sin decir cuál de los tres.
+//
+// Cada petición arma el calendario de nuevo a partir de las inscripciones del
+// usuario (GET /registrations?userId=...) y TODAS las páginas de eventos
+// (GET /events), así el calendario suscrito refleja cambios de fecha,
+// eventos eliminados e inscripciones canceladas en la siguiente
+// actualización. La API se consulta con la credencial del servidor
+// (_lib/credential.ts), nunca con la sesión del usuario. Nunca se sirve un
+// calendario viejo:
+// - Servidor sin credencial → 503.
+// - Cualquier fallo de la API → 502; la app de calendario reintenta.
+
+import { NextResponse } from "next/server";
+
+import { getEventsApi, getRegistrationsByUserApi, resolveApiUrl } from "@/lib/api";
+import { eventsToIcs, ICS_MIME_TYPE } from "@/lib/ical";
+import type { Event } from "@/lib/types";
+import { feedApiToken } from "../_lib/credential";
+import { findFeed, type CalendarFeed } from "../_lib/feeds";
+
+type Params = { params: Promise<{ feed: string }> };
+
+function notFound() {
+    return NextResponse.json({ message: "Calendario no encontrado." }, { status: 404 });
+}
+
+function icsResponse(ics: string) {
+    return new NextResponse(ics, {
+        headers: {
+            "Content-Type": ICS_MIME_TYPE,
+            "Content-Disposition": 'inline; filename="mis-eventos.ics"',
+            // Siempre datos frescos: el calendario se arma en cada petición.
+            "Cache-Control": "no-store",
+        },
+    });
+}
+
+// Tamaño de página al recorrer GET /events, y tope de páginas por si el
+// backend ignora page y devuelve siempre la misma.
+const EVENTS_PAGE_SIZE = 100;
+const MAX_EVENT_PAGES = 50;
+
+// Todos los eventos, página por página hasta completar el total.
+async function fetchAllEvents(apiToken: string, options: { baseUrl: string }): Promise<Event[]> {
+    const events: Event[] = [];
+    for (let page = 1; page <= MAX_EVENT_PAGES; page++) {
+        const res = await getEventsApi(apiToken, { page, pageSize: EVENTS_PAGE_SIZE }, options);
+        events.push(...res.items);
+        if (res.items.length === 0 || events.length >= res.total) break;
+    }
+    return events;
+}
+
+// Calendario con los eventos a los que el usuario está inscrito.
+async function buildIcs(feed: CalendarFeed, apiToken: string, origin: string): Promise<string> {
+    const options = { baseUrl: resolveApiUrl(origin) };
+    const [registrations, events] = await Promise.all([
+        getRegistrationsByUserApi(apiToken, feed.userId, options),
+        fetchAllEvents(apiToken, options),
+    ]);
+
+    const joined = new Set(registrations.map((reg) => reg.eventId));
+    return eventsToIcs(
+        events.filter((event) => joined.has(event.eventId)),
+        { calendarName: "Mis eventos", baseUrl: origin }
+    );
+}
+
+export async function GET(request: Request, { params }: Params) {
+    const { feed: file } = await params;
+    if (!file.endsWith(".ics")) return notFound();
+
+    const url = new URL(request.url);
+    const feed = await findFeed(file.slice(0, -".ics".length), url.searchParams.get("token") ?? "");
+    if (!feed) return notFound();
+
+    const apiToken = feedApiToken(feed.userId);
+    if (!apiToken) {
+        return NextResponse.json(
+            { message: "El servidor no tiene configurados los feeds de calendario." },
+            { status: 503 }
+        );
+    }
+
+    try {
+        return icsResponse(await buildIcs(feed, apiToken, url.origin));
+    } catch {
+        return NextResponse.json(
+            { message: "No se pudo generar el calendario." },
+            { status: 502 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+// src/app/api/calendar/_lib/credential.ts
+//
+// CREDENCIAL DEL SERVIDOR PARA ARMAR LOS FEEDS.
+//
+// El feed se pide sin sesión (Google Calendar, Thunderbird), así que el
+// servidor necesita su propio token para leer GET /registrations y
+// GET /events. Nunca se usa ni se guarda el token de sesión del usuario:
+//
+// - Backend real: CALENDAR_API_TOKEN (variable de entorno del servidor, sin
+//   NEXT_PUBLIC_): token de una cuenta de servicio con permiso de lectura.
+// - Backend mock: un token del propio usuario del feed, emitido en cada
+//   petición y descartado al terminar.
+//
+// Sin credencial (backend real sin CALENDAR_API_TOKEN) los feeds están
+// desactivados: null.
+//
+// ¿Quién usa este archivo?
+// - api/calendar/feed   → no crea feeds si está desactivado.
+// - api/calendar/[feed] → token con el que arma el calendario.
+
+import { issueToken } from "@/app/api/mock/_lib/http";
+
+const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+// true si el servidor puede armar feeds.
+export function feedsEnabled(): boolean {
+    return USE_MOCK_API || !!process.env.CALENDAR_API_TOKEN;
+}
+
+// Token con el que consultar la API para el feed de userId, o null.
+export function feedApiToken(userId: string): string | null {
+    if (USE_MOCK_API) return issueToken(userId);
+    return process.env.CALENDAR_API_TOKEN || null;
+}
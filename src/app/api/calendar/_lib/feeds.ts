@@ -0,0 +1,85 @@
+// src/app/api/calendar/_lib/feeds.ts
+//
+// FEEDS DE CALENDARIO POR USUARIO (en un archivo JSON del servidor).
+//
+// Cada usuario puede tener UN feed: un token secreto y aleatorio que va en
+// la URL de suscripción (/api/calendar/U001.ics?token=...). Quien tenga la
+// URL ve el calendario, así que:
+// - Regenerar el feed cambia el token (la URL vieja deja de funcionar).
+// - Revocarlo lo borra.
+//
+// Solo se guarda { userId, feedToken }: NUNCA el token de sesión del
+// usuario. Para consultar la API, el feed usa una credencial del servidor
+// (credential.ts).
+//
+// Los feeds se guardan en CALENDAR_FEEDS_FILE (por defecto
+// .data/calendar-feeds.json), así sobreviven a reiniciar el servidor. Se
+// reescribe el archivo completo en cada cambio (primero a un temporal y
+// luego rename, para no dejarlo a medias).
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface CalendarFeed {
+    userId: string;
+    feedToken: string;
+}
+
+const FEEDS_FILE = path.resolve(
+    process.env.CALENDAR_FEEDS_FILE ?? path.join(".data", "calendar-feeds.json")
+);
+
+// Lee todos los feeds; si el archivo no existe (o está corrupto), ninguno.
+async function readFeeds(): Promise<CalendarFeed[]> {
+    try {
+        const data = JSON.parse(await readFile(FEEDS_FILE, "utf8")) as unknown;
+        return Array.isArray(data) ? (data as CalendarFeed[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+async function writeFeeds(feeds: CalendarFeed[]): Promise<void> {
+    await mkdir(path.dirname(FEEDS_FILE), { recursive: true });
+    const tmp = `${FEEDS_FILE}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(feeds, null, 2), "utf8");
+    await rename(tmp, FEEDS_FILE);
+}
+
+export async function getFeed(userId: string): Promise<CalendarFeed | null> {
+    return (await readFeeds()).find((feed) => feed.userId === userId) ?? null;
+}
+
+// Crea el feed del usuario o, si ya tenía uno, le cambia el token.
+export async function createFeed(userId: string): Promise<CalendarFeed> {
+    const feed: CalendarFeed = {
+        userId,
+        feedToken: randomBytes(24).toString("base64url"),
+    };
+    const others = (await readFeeds()).filter((f) => f.userId !== userId);
+    await writeFeeds([...others, feed]);
+    return feed;
+}
+
+export async function revokeFeed(userId: string): Promise<void> {
+    const feeds = await readFeeds();
+    const rest = feeds.filter((feed) => feed.userId !== userId);
+    if (rest.length !== feeds.length) await writeFeeds(rest);
+}
+
+// El feed de userId si feedToken es el suyo; si no, null.
+// Comparación en tiempo constante para no filtrar el token por tiempos.
+export async function findFeed(userId: string, feedToken: string): Promise<CalendarFeed | null> {
+    const feed = await getFeed(userId);
+    if (!feed) return null;
+
+    const expected = Buffer.from(feed.feedToken);
+    const given = Buffer.from(feedToken);
+    return expected.length === given.length && timingSafeEqual(expected, given) ? feed : null;
+}
+
+// URL pública de suscripción del feed.
+export function feedUrl(origin: string, feed: CalendarFeed): string {
+    return `${origin}/api/calendar/${encodeURIComponent(feed.userId)}.ics?token=${feed.feedToken}`;
+}
@@ -0,0 +1,76 @@
+// src/app/api/calendar/feed/route.ts
+//
+// ROUTE HANDLER DEL FEED DE CALENDARIO DEL USUARIO
+// Ruta: /api/calendar/feed  (Authorization: Bearer <token de la API>)
+//
+// - GET    → { url } del feed del usuario, o { url: null } si no tiene.
+// - POST   → crea el feed o lo regenera (la URL anterior deja de servir).
+//            503 si el servidor no tiene credencial para armar feeds.
+// - DELETE → revoca el feed (204).
+//
+// El usuario se identifica preguntándole a la API (GET /me) con su token,
+// así funciona igual con el backend del profe y con el mock. Ese token solo
+// se usa en esta petición: el feed no lo guarda (ver _lib/credential.ts).
+//
+// ¿Quién lo usa? CalendarFeedSection (ProfilePage), vía calendarFeed.ts.
+
+import { NextResponse } from "next/server";
+
+import { getMeApi, resolveApiUrl } from "@/lib/api";
+import { ApiError } from "@/lib/errors";
+import type { User } from "@/lib/types";
+import { feedsEnabled } from "../_lib/credential";
+import { createFeed, feedUrl, getFeed, revokeFeed } from "../_lib/feeds";
+
+// Usuario dueño del token de la petición, o la respuesta de error a devolver.
+async function authenticate(
+    request: Request
+): Promise<{ user: User; token: string } | NextResponse> {
+    const header = request.headers.get("authorization") ?? "";
+    const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+    if (!token) {
+        return NextResponse.json({ message: "Falta el token." }, { status: 401 });
+    }
+
+    try {
+        const baseUrl = resolveApiUrl(new URL(request.url).origin);
+        const user = await getMeApi(token, { baseUrl, retries: 0 });
+        return { user, token };
+    } catch (err) {
+        const status = err instanceof ApiError && err.status === 401 ? 401 : 502;
+        return NextResponse.json({ message: "No se pudo verificar la sesión." }, { status });
+    }
+}
+
+export async function GET(request: Request) {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) return auth;
+
+    const feed = await getFeed(auth.user.userId);
+    if (!feed) return NextResponse.json({ url: null });
+
+    return NextResponse.json({ url: feedUrl(new URL(request.url).origin, feed) });
+}
+
+export async function POST(request: Request) {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) return auth;
+
+    if (!feedsEnabled()) {
+        return NextResponse.json(
+            { message: "El servidor no tiene configurados los feeds de calendario." },
+            { status: 503 }
+        );
+    }
+
+    const feed = await createFeed(auth.user.userId);
+    return NextResponse.json({ url: feedUrl(new URL(request.url).origin, feed) }, { status: 201 });
+}
+
+export async function DELETE(request: Request) {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) return auth;
+
+    await revokeFeed(auth.user.userId);
+    return new NextResponse(null, { status: 204 });
+}
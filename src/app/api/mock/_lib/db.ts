@@ -0,0 +1,77 @@
+// src/app/api/mock/_lib/db.ts
+//
+// BASE DE DATOS EN MEMORIA DEL BACKEND MOCK.
+//
+// - Se llena con una copia de fixtures.ts la primera vez que se usa.
+// - Vive en globalThis para sobrevivir al hot reload de `next dev`
+//   (cada recarga vuelve a evaluar los módulos, pero no globalThis).
+// - Se pierde al reiniciar el servidor: es a propósito, siempre se parte
+//   de los mismos datos semilla.
+
+import type { Comment, Event, Post, Registration, User } from "@/lib/types";
+import {
+    seedComments,
+    seedEvents,
+    seedPosts,
+    seedRegistrations,
+    seedUsers,
+} from "./fixtures";
+
+export interface MockDb {
+    users: User[];
+    events: Event[];
+    registrations: Registration[];
+    posts: Post[];
+    comments: Comment[];
+}
+
+const globalForMock = globalThis as typeof globalThis & { __mockDb?: MockDb };
+
+// structuredClone para que las mutaciones no toquen los fixtures originales.
+function createDb(): MockDb {
+    return structuredClone({
+        users: seedUsers,
+        events: seedEvents,
+        registrations: seedRegistrations,
+        posts: seedPosts,
+        comments: seedComments,
+    });
+}
+
+export function getDb(): MockDb {
+    if (!globalForMock.__mockDb) {
+        globalForMock.__mockDb = createDb();
+    }
+    return globalForMock.__mockDb;
+}
+
+// Siguiente id con prefijo ("U", "E", "R"), siguiendo la numeración de las
+// semillas: U001, U002, ... → U005.
+export function nextStringId(prefix: string, existing: string[]): string {
+    const max = existing.reduce((acc, id) => {
+        const n = Number(id.slice(prefix.length));
+        return Number.isNaN(n) ? acc : Math.max(acc, n);
+    }, 0);
+    return `${prefix}${String(max + 1).padStart(3, "0")}`;
+}
+
+// Siguiente id numérico (posts y comentarios).
+export function nextNumericId(existing: number[]): number {
+    return existing.reduce((acc, id) => Math.max(acc, id), 0) + 1;
+}
+
+// El backend del parcial no debería devolver el password: lo quitamos.
+export function toPublicUser(user: User): User {
+    const publicUser = { ...user };
+    delete publicUser.password;
+    return publicUser;
+}
+
+// Evento con participantsCount calculado a partir de las inscripciones.
+export function withParticipants(event: Event, db: MockDb): Event {
+    return {
+        ...event,
+        participantsCount: db.registrations.filter((reg) => reg.eventId === event.eventId)
+            .length,
+    };
+}
@@ -0,0 +1,104 @@
+// src/app/api/mock/_lib/fixtures.ts
+//
+// DATOS SEMILLA DEL BACKEND MOCK.
+//
+// Mismas formas que src/lib/types.ts (User, Event, Registration, Post, Comment),
+// con los ejemplos del enunciado del parcial. Cada vez que el servidor de
+// desarrollo arranca, la base en memoria (db.ts) se llena con una copia de esto.
+//
+// Usuarios para probar el login (todos con contraseña "Hola1234**"):
+//   juan.perez@example.com  → admin
+//   ana.gomez@example.com   → organizer
+//   carlos.ruiz@example.com → organizer
+//   laura.diaz@example.com  → attendee
+
+import type { Comment, Event, Post, Registration, User } from "@/lib/types";
+
+export const seedUsers: User[] = [
+    { userId: "U001", name: "Juan Pérez", email: "juan.perez@example.com", city: "Bogotá", password: "Hola1234**", role: "admin" },
+    { userId: "U002", name: "Ana Gómez", email: "ana.gomez@example.com", city: "Cali", password: "Hola1234**", role: "organizer" },
+    { userId: "U003", name: "Carlos Ruiz", email: "carlos.ruiz@example.com", city: "Medellín", password: "Hola1234**", role: "organizer" },
+    { userId: "U004", name: "Laura Díaz", email: "laura.diaz@example.com", city: "Cali", password: "Hola1234**", role: "attendee" },
+];
+
+export const seedEvents: Event[] = [
+    {
+        eventId: "E001",
+        name: "Encuentro de IA",
+        description: "Charlas y demos sobre inteligencia artificial aplicada.",
+        date: "2025-12-05T18:00:00Z",
+        city: "Bogotá",
+        createdBy: "U001",
+        capacity: 3,
+    },
+    {
+        eventId: "E002",
+        name: "Taller de Next.js",
+        description: "App Router, route handlers y middleware desde cero.",
+        date: "2025-12-10T14:00:00Z",
+        city: "Cali",
+        createdBy: "U002",
+    },
+    {
+        eventId: "E003",
+        name: "Meetup de bases de datos",
+        description: "PostgreSQL, índices y consultas lentas.",
+        date: "2025-12-12T23:00:00Z",
+        city: "Medellín",
+        createdBy: "U003",
+        capacity: 20,
+    },
+    {
+        eventId: "E004",
+        name: "Hackathon ICESI",
+        description: "24 horas construyendo soluciones para la ciudad.",
+        date: "2026-01-20T13:00:00Z",
+        city: "Cali",
+        createdBy: "U002",
+        capacity: 40,
+    },
+    {
+        eventId: "E005",
+        name: "Club de lectura técnica",
+        description: "Este mes: Designing Data-Intensive Applications.",
+        date: "2026-02-03T00:30:00Z",
+        city: "Bogotá",
+        createdBy: "U004",
+    },
+];
+
+export const seedRegistrations: Registration[] = [
+    { regId: "R001", eventId: "E001", userId: "U002", registeredAt: "2025-10-10T09:15:00Z" },
+    { regId: "R002", eventId: "E001", userId: "U003", registeredAt: "2025-10-11T10:00:00Z" },
+    { regId: "R003", eventId: "E001", userId: "U004", registeredAt: "2025-10-12T11:30:00Z" },
+    { regId: "R004", eventId: "E002", userId: "U001", registeredAt: "2025-10-13T08:45:00Z" },
+    { regId: "R005", eventId: "E004", userId: "U001", registeredAt: "2025-10-14T16:20:00Z" },
+    { regId: "R006", eventId: "E004", userId: "U003", registeredAt: "2025-10-15T17:05:00Z" },
+];
+
+export const seedPosts: Post[] = [
+    {
+        id: 1,
+        title: "Bienvenidos al feed",
+        body: "Aquí compartimos novedades de los eventos.",
+        author: { userId: "U001", name: "Juan Pérez", email: "juan.perez@example.com" },
+        createdAt: "2025-10-01T12:00:00Z",
+    },
+    {
+        id: 2,
+        title: "¿Quién va al taller de Next.js?",
+        body: "Estoy armando grupo para ir juntos desde la universidad.",
+        author: { userId: "U002", name: "Ana Gómez", email: "ana.gomez@example.com" },
+        createdAt: "2025-10-05T15:30:00Z",
+    },
+];
+
+export const seedComments: Comment[] = [
+    {
+        id: 1,
+        postId: 2,
+        body: "¡Yo me apunto!",
+        author: { userId: "U001", name: "Juan Pérez", email: "juan.perez@example.com" },
+        createdAt: "2025-10-05T16:00:00Z",
+    },
+];
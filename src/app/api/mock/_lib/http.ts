@@ -0,0 +1,75 @@
+// src/app/api/mock/_lib/http.ts
+//
+// UTILIDADES HTTP DEL BACKEND MOCK.
+//
+// - Respuestas JSON y errores con la forma { message } que entiende ApiError.
+// - Tokens: un "JWT" sin firma con { sub: userId, exp }. Sirve para que
+//   SessionWatcher y middleware.ts lean exp igual que con el backend real.
+//   NO es seguro (cualquiera puede fabricar uno): solo es para desarrollo.
+// - authenticate(): lee Authorization: Bearer <token> y devuelve el usuario.
+
+import { NextResponse } from "next/server";
+
+import type { User } from "@/lib/types";
+import { getDb } from "./db";
+
+// Duración del token mock: 8 horas.
+const TOKEN_TTL_SECONDS = 60 * 60 * 8;
+
+export function json<T>(data: T, status = 200) {
+    return NextResponse.json(data, { status });
+}
+
+export function jsonError(status: number, message: string) {
+    return NextResponse.json({ message }, { status });
+}
+
+// 204 sin body (DELETE exitoso).
+export function noContent() {
+    return new NextResponse(null, { status: 204 });
+}
+
+// Lee el body JSON; null si no es JSON válido o no es un objeto.
+export async function readJson(request: Request): Promise<Record<string, unknown> | null> {
+    const body = await request.json().catch(() => null);
+    return body && typeof body === "object" && !Array.isArray(body)
+        ? (body as Record<string, unknown>)
+        : null;
+}
+
+// true si value es un string no vacío (después de trim).
+export function isNonEmptyString(value: unknown): value is string {
+    return typeof value === "string" && value.trim().length > 0;
+}
+
+export function issueToken(userId: string): string {
+    const encode = (data: object) => Buffer.from(JSON.stringify(data)).toString("base64url");
+    const exp = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+    return `${encode({ alg: "none", typ: "JWT" })}.${encode({ sub: userId, exp })}.mock`;
+}
+
+// Devuelve el usuario dueño del token, o null si falta, está vencido o
+// el usuario ya no existe.
+export function authenticate(request: Request): User | null {
+    const header = request.headers.get("authorization") ?? "";
+    const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+    const payloadPart = token.split(".")[1];
+    if (!payloadPart) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(payloadPart, "base64url").toString()) as {
+            sub?: unknown;
+            exp?: unknown;
+        };
+        if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+            return null;
+        }
+        return getDb().users.find((user) => user.userId === payload.sub) ?? null;
+    } catch {
+        return null;
+    }
+}
+
+export function unauthorized() {
+    return jsonError(401, "Token inválido o expirado.");
+}
@@ -0,0 +1,109 @@
+// src/app/api/mock/_lib/validation.ts
+//
+// VALIDACIÓN DE BODIES DEL BACKEND MOCK.
+//
+// Cada función devuelve los datos limpios o un string con el error
+// (que la ruta responde como 400).
+
+import { isValidEmail, MIN_PASSWORD_LENGTH } from "@/lib/validation";
+import { isNonEmptyString } from "./http";
+
+export interface EventInput {
+    name: string;
+    description: string;
+    date: string;
+    city: string;
+    capacity?: number;
+}
+
+// Body de POST /events y PUT /events/{id}.
+export function parseEventInput(body: Record<string, unknown> | null): EventInput | string {
+    if (
+        !body ||
+        !isNonEmptyString(body.name) ||
+        !isNonEmptyString(body.description) ||
+        !isNonEmptyString(body.date) ||
+        !isNonEmptyString(body.city)
+    ) {
+        return "name, description, date y city son obligatorios.";
+    }
+
+    if (Number.isNaN(new Date(body.date).getTime())) {
+        return "date no es una fecha válida.";
+    }
+
+    const capacity = body.capacity;
+    if (
+        capacity !== undefined &&
+        capacity !== null &&
+        (typeof capacity !== "number" || !Number.isInteger(capacity) || capacity < 1)
+    ) {
+        return "capacity debe ser un entero mayor que 0.";
+    }
+
+    return {
+        name: body.name.trim(),
+        description: body.description.trim(),
+        date: body.date,
+        city: body.city.trim(),
+        capacity: typeof capacity === "number" ? capacity : undefined,
+    };
+}
+
+// Body de POST /posts y PUT /posts/{id}.
+export function parsePostInput(
+    body: Record<string, unknown> | null
+): { title: string; body: string } | string {
+    if (!body || !isNonEmptyString(body.title) || !isNonEmptyString(body.body)) {
+        return "title y body son obligatorios.";
+    }
+    return { title: body.title.trim(), body: body.body.trim() };
+}
+
+// Body de POST /posts/{id}/comments y PUT /comments/{id}.
+export function parseCommentInput(
+    body: Record<string, unknown> | null
+): { body: string } | string {
+    if (!body || !isNonEmptyString(body.body)) {
+        return "body es obligatorio.";
+    }
+    return { body: body.body.trim() };
+}
+
+// Body de PATCH /users/{id}: cualquier subconjunto de name, email y city.
+// Los que vienen no pueden estar vacíos; el email se guarda en minúsculas.
+export function parseUserUpdateInput(
+    body: Record<string, unknown> | null
+): { name?: string; email?: string; city?: string } | string {
+    if (!body) return "El body debe ser un objeto JSON.";
+
+    const input: { name?: string; email?: string; city?: string } = {};
+    for (const field of ["name", "email", "city"] as const) {
+        const value = body[field];
+        if (value === undefined) continue;
+        if (!isNonEmptyString(value)) return `${field} no puede estar vacío.`;
+        input[field] = value.trim();
+    }
+
+    if (input.email !== undefined) {
+        input.email = input.email.toLowerCase();
+        if (!isValidEmail(input.email)) {
+            return "email no es un email válido.";
+        }
+    }
+
+    return input;
+}
+
+// Body de PUT /users/{id}/password.
+export function parsePasswordChangeInput(
+    body: Record<string, unknown> | null
+): { currentPassword: string; newPassword: string } | string {
+    if (!body || !isNonEmptyString(body.currentPassword) || !isNonEmptyString(body.newPassword)) {
+        return "currentPassword y newPassword son obligatorios.";
+    }
+    if (body.newPassword.length < MIN_PASSWORD_LENGTH) {
+        return `newPassword debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+    }
+    return { currentPassword: body.currentPassword, newPassword: body.newPassword };
+}
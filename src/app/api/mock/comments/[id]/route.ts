@@ -0,0 +1,58 @@
+// src/app/api/mock/comments/[id]/route.ts
+//
+// PUT    /comments/{id} { body } → actualizar (el autor o admin, si no 403)
+// DELETE /comments/{id}          → eliminar (el autor o admin, si no 403)
+
+import { can } from "@/lib/permissions";
+import { getDb } from "../../_lib/db";
+import {
+    authenticate,
+    json,
+    jsonError,
+    noContent,
+    readJson,
+    unauthorized,
+} from "../../_lib/http";
+import { parseCommentInput } from "../../_lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const index = db.comments.findIndex((c) => c.id === Number(id));
+    if (index === -1) return jsonError(404, "Comentario no encontrado.");
+
+    if (!can(user, "comment:update", db.comments[index])) {
+        return jsonError(403, "Solo el autor o un administrador puede editar el comentario.");
+    }
+
+    const input = parseCommentInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    db.comments[index] = { ...db.comments[index], ...input };
+
+    return json(db.comments[index]);
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const commentId = Number(id);
+    const db = getDb();
+    const comment = db.comments.find((c) => c.id === commentId);
+    if (!comment) return jsonError(404, "Comentario no encontrado.");
+
+    if (!can(user, "comment:delete", comment)) {
+        return jsonError(403, "Solo el autor o un administrador puede eliminar el comentario.");
+    }
+
+    db.comments = db.comments.filter((c) => c.id !== commentId);
+
+    return noContent();
+}
@@ -0,0 +1,101 @@
+// src/app/api/mock/events/[id]/route.ts
+//
+// GET    /events/{id} → detalle
+// PUT    /events/{id} → actualizar (createdBy o admin, si no 403)
+// PATCH  /events/{id} { createdBy } → reasignar el creador (solo admin, si
+//                       no 403; createdBy debe ser un usuario existente)
+// DELETE /events/{id} → eliminar (createdBy o admin, si no 403)
+//                       También borra las inscripciones del evento.
+
+import { can } from "@/lib/permissions";
+import { getDb, withParticipants } from "../../_lib/db";
+import {
+    authenticate,
+    json,
+    jsonError,
+    noContent,
+    isNonEmptyString,
+    readJson,
+    unauthorized,
+} from "../../_lib/http";
+import { parseEventInput } from "../../_lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+    if (!authenticate(request)) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const event = db.events.find((e) => e.eventId === id);
+    if (!event) return jsonError(404, "Evento no encontrado.");
+
+    return json(withParticipants(event, db));
+}
+
+export async function PUT(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const index = db.events.findIndex((e) => e.eventId === id);
+    if (index === -1) return jsonError(404, "Evento no encontrado.");
+
+    if (!can(user, "event:update", db.events[index])) {
+        return jsonError(403, "Solo el creador o un administrador puede editar el evento.");
+    }
+
+    const input = parseEventInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    db.events[index] = { ...db.events[index], ...input };
+
+    return json(withParticipants(db.events[index], db));
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const index = db.events.findIndex((e) => e.eventId === id);
+    if (index === -1) return jsonError(404, "Evento no encontrado.");
+
+    if (!can(user, "event:reassign", db.events[index])) {
+        return jsonError(403, "Solo un administrador puede reasignar el evento.");
+    }
+
+    const body = await readJson(request);
+    if (!body || !isNonEmptyString(body.createdBy)) {
+        return jsonError(400, "createdBy es obligatorio.");
+    }
+    const createdBy = body.createdBy;
+    if (!db.users.some((u) => u.userId === createdBy)) {
+        return jsonError(400, "createdBy no corresponde a ningún usuario.");
+    }
+
+    db.events[index] = { ...db.events[index], createdBy };
+
+    return json(withParticipants(db.events[index], db));
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const event = db.events.find((e) => e.eventId === id);
+    if (!event) return jsonError(404, "Evento no encontrado.");
+
+    if (!can(user, "event:delete", event)) {
+        return jsonError(403, "Solo el creador o un administrador puede eliminar el evento.");
+    }
+
+    db.events = db.events.filter((e) => e.eventId !== id);
+    db.registrations = db.registrations.filter((reg) => reg.eventId !== id);
+
+    return noContent();
+}
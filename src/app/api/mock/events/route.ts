@@ -0,0 +1,70 @@
+// src/app/api/mock/events/route.ts
+//
+// GET  /events?city=&from=&to=&q=&createdBy=&sortBy=&sortDir=&page=&pageSize=
+//        → { items, total, page, pageSize }
+//        Sin page/pageSize devuelve todos los eventos en un solo sobre.
+//        Filtros, orden y paginación: applyEventsQuery (lib/eventsQuery.ts),
+//        el mismo que usa el cliente con un backend sin paginación.
+// POST /events { name, description, date, city, capacity? } → evento creado
+//        createdBy = usuario del token. Solo organizer o admin (si no 403).
+
+import { can } from "@/lib/permissions";
+import { applyEventsQuery } from "@/lib/eventsQuery";
+import type { Event, EventSortField, EventsQuery, Paginated } from "@/lib/types";
+import { getDb, nextStringId, withParticipants } from "../_lib/db";
+import { authenticate, json, jsonError, readJson, unauthorized } from "../_lib/http";
+import { parseEventInput } from "../_lib/validation";
+
+const SORT_FIELDS: EventSortField[] = ["date", "name", "city"];
+
+export async function GET(request: Request) {
+    if (!authenticate(request)) return unauthorized();
+
+    const params = new URL(request.url).searchParams;
+    const sortByParam = params.get("sortBy") as EventSortField | null;
+    const number = (name: string) =>
+        params.has(name) ? Number(params.get(name)) || undefined : undefined;
+    const query: EventsQuery = {
+        city: params.get("city") ?? undefined,
+        from: params.get("from") ?? undefined,
+        to: params.get("to") ?? undefined,
+        q: params.get("q") ?? undefined,
+        createdBy: params.get("createdBy") ?? undefined,
+        sortBy: sortByParam && SORT_FIELDS.includes(sortByParam) ? sortByParam : "date",
+        sortDir: params.get("sortDir") === "desc" ? "desc" : "asc",
+        page: number("page"),
+        pageSize: number("pageSize"),
+    };
+    // page=abc cuenta como "paginar" aunque no sea un número (página 1).
+    if (params.has("page") || params.has("pageSize")) query.page ??= 1;
+
+    const db = getDb();
+    const result = applyEventsQuery(db.events, query);
+    const body: Paginated<Event> = {
+        ...result,
+        items: result.items.map((event) => withParticipants(event, db)),
+    };
+    return json(body);
+}
+
+export async function POST(request: Request) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    if (!can(user, "event:create")) {
+        return jsonError(403, "Solo organizadores y administradores pueden crear eventos.");
+    }
+
+    const input = parseEventInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    const db = getDb();
+    const event: Event = {
+        eventId: nextStringId("E", db.events.map((e) => e.eventId)),
+        ...input,
+        createdBy: user.userId,
+    };
+    db.events.push(event);
+
+    return json(withParticipants(event, db), 201);
+}
@@ -0,0 +1,24 @@
+// src/app/api/mock/login/route.ts
+//
+// POST /login  { email, password } → { token, user }
+
+import { getDb, toPublicUser } from "../_lib/db";
+import { isNonEmptyString, issueToken, json, jsonError, readJson } from "../_lib/http";
+
+export async function POST(request: Request) {
+    const body = await readJson(request);
+    if (!body || !isNonEmptyString(body.email) || !isNonEmptyString(body.password)) {
+        return jsonError(400, "email y password son obligatorios.");
+    }
+
+    const email = body.email.trim().toLowerCase();
+    const user = getDb().users.find(
+        (u) => u.email.toLowerCase() === email && u.password === body.password
+    );
+
+    if (!user) {
+        return jsonError(401, "Credenciales inválidas.");
+    }
+
+    return json({ token: issueToken(user.userId), user: toPublicUser(user) });
+}
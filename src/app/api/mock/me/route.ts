@@ -0,0 +1,13 @@
+// src/app/api/mock/me/route.ts
+//
+// GET /me → usuario dueño del token
+
+import { toPublicUser } from "../_lib/db";
+import { authenticate, json, unauthorized } from "../_lib/http";
+
+export async function GET(request: Request) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    return json(toPublicUser(user));
+}
@@ -0,0 +1,54 @@
+// src/app/api/mock/posts/[id]/comments/route.ts
+//
+// GET  /posts/{id}/comments → comentarios del post (más antiguos primero)
+// POST /posts/{id}/comments { body } → comentario creado (author = usuario del token)
+
+import type { Comment } from "@/lib/types";
+import { getDb, nextNumericId } from "../../../_lib/db";
+import { authenticate, json, jsonError, readJson, unauthorized } from "../../../_lib/http";
+import { parseCommentInput } from "../../../_lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+    if (!authenticate(request)) return unauthorized();
+
+    const { id } = await params;
+    const postId = Number(id);
+    const db = getDb();
+    if (!db.posts.some((p) => p.id === postId)) {
+        return jsonError(404, "Post no encontrado.");
+    }
+
+    const comments = db.comments
+        .filter((c) => c.postId === postId)
+        .sort((a, b) => (a.createdAt ?? "").localeCompare(b.createdAt ?? ""));
+
+    return json(comments);
+}
+
+export async function POST(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const postId = Number(id);
+    const db = getDb();
+    if (!db.posts.some((p) => p.id === postId)) {
+        return jsonError(404, "Post no encontrado.");
+    }
+
+    const input = parseCommentInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    const comment: Comment = {
+        id: nextNumericId(db.comments.map((c) => c.id)),
+        postId,
+        ...input,
+        author: { userId: user.userId, name: user.name, email: user.email },
+        createdAt: new Date().toISOString(),
+    };
+    db.comments.push(comment);
+
+    return json(comment, 201);
+}
@@ -0,0 +1,70 @@
+// src/app/api/mock/posts/[id]/route.ts
+//
+// GET    /posts/{id} → detalle
+// PUT    /posts/{id} → actualizar (el autor o admin, si no 403)
+// DELETE /posts/{id} → eliminar (el autor o admin, si no 403) junto con sus comentarios
+
+import { can } from "@/lib/permissions";
+import { getDb } from "../../_lib/db";
+import {
+    authenticate,
+    json,
+    jsonError,
+    noContent,
+    readJson,
+    unauthorized,
+} from "../../_lib/http";
+import { parsePostInput } from "../../_lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+    if (!authenticate(request)) return unauthorized();
+
+    const { id } = await params;
+    const post = getDb().posts.find((p) => p.id === Number(id));
+    if (!post) return jsonError(404, "Post no encontrado.");
+
+    return json(post);
+}
+
+export async function PUT(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const index = db.posts.findIndex((p) => p.id === Number(id));
+    if (index === -1) return jsonError(404, "Post no encontrado.");
+
+    if (!can(user, "post:update", db.posts[index])) {
+        return jsonError(403, "Solo el autor o un administrador puede editar el post.");
+    }
+
+    const input = parsePostInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    db.posts[index] = { ...db.posts[index], ...input };
+
+    return json(db.posts[index]);
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const postId = Number(id);
+    const db = getDb();
+    const post = db.posts.find((p) => p.id === postId);
+    if (!post) return jsonError(404, "Post no encontrado.");
+
+    if (!can(user, "post:delete", post)) {
+        return jsonError(403, "Solo el autor o un administrador puede eliminar el post.");
+    }
+
+    db.posts = db.posts.filter((p) => p.id !== postId);
+    db.comments = db.comments.filter((c) => c.postId !== postId);
+
+    return noContent();
+}
@@ -0,0 +1,38 @@
+// src/app/api/mock/posts/route.ts
+//
+// GET  /posts → posts del feed (más recientes primero)
+// POST /posts { title, body } → post creado (author = usuario del token)
+
+import type { Post } from "@/lib/types";
+import { getDb, nextNumericId } from "../_lib/db";
+import { authenticate, json, jsonError, readJson, unauthorized } from "../_lib/http";
+import { parsePostInput } from "../_lib/validation";
+
+export async function GET(request: Request) {
+    if (!authenticate(request)) return unauthorized();
+
+    const posts = [...getDb().posts].sort((a, b) =>
+        (b.createdAt ?? "").localeCompare(a.createdAt ?? "")
+    );
+
+    return json(posts);
+}
+
+export async function POST(request: Request) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const input = parsePostInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    const db = getDb();
+    const post: Post = {
+        id: nextNumericId(db.posts.map((p) => p.id)),
+        ...input,
+        author: { userId: user.userId, name: user.name, email: user.email },
+        createdAt: new Date().toISOString(),
+    };
+    db.posts.push(post);
+
+    return json(post, 201);
+}
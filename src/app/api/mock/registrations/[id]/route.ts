@@ -0,0 +1,28 @@
+// src/app/api/mock/registrations/[id]/route.ts
+//
+// DELETE /registrations/{regId} → cancelar inscripción (la propia o, si eres
+//                                 admin, cualquiera; si no 403)
+
+import { can } from "@/lib/permissions";
+import { getDb } from "../../_lib/db";
+import { authenticate, jsonError, noContent, unauthorized } from "../../_lib/http";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: Request, { params }: Params) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const registration = db.registrations.find((reg) => reg.regId === id);
+    if (!registration) return jsonError(404, "Inscripción no encontrada.");
+
+    if (!can(user, "registration:delete", registration)) {
+        return jsonError(403, "Solo puedes cancelar tus propias inscripciones.");
+    }
+
+    db.registrations = db.registrations.filter((reg) => reg.regId !== id);
+
+    return noContent();
+}
@@ -0,0 +1,70 @@
+// src/app/api/mock/registrations/route.ts
+//
+// GET  /registrations[?eventId=E001][&userId=U002] → inscripciones
+// POST /registrations { eventId, userId } → inscripción creada
+//
+// Reglas:
+// - Solo puedes inscribirte a ti mismo (userId del body = usuario del token) → 403.
+// - El evento debe existir → 404.
+// - Una sola inscripción por usuario y evento → 409.
+// - Sin límite de cupos: la lista de espera la calcula el cliente
+//   (src/lib/capacity.ts) por orden de registeredAt.
+
+import type { Registration } from "@/lib/types";
+import { getDb, nextStringId } from "../_lib/db";
+import {
+    authenticate,
+    isNonEmptyString,
+    json,
+    jsonError,
+    readJson,
+    unauthorized,
+} from "../_lib/http";
+
+export async function GET(request: Request) {
+    if (!authenticate(request)) return unauthorized();
+
+    const params = new URL(request.url).searchParams;
+    const eventId = params.get("eventId");
+    const userId = params.get("userId");
+
+    const items = getDb().registrations.filter(
+        (reg) => (!eventId || reg.eventId === eventId) && (!userId || reg.userId === userId)
+    );
+
+    return json(items);
+}
+
+export async function POST(request: Request) {
+    const user = authenticate(request);
+    if (!user) return unauthorized();
+
+    const body = await readJson(request);
+    if (!body || !isNonEmptyString(body.eventId) || !isNonEmptyString(body.userId)) {
+        return jsonError(400, "eventId y userId son obligatorios.");
+    }
+
+    if (body.userId !== user.userId) {
+        return jsonError(403, "Solo puedes inscribirte a ti mismo.");
+    }
+
+    const db = getDb();
+    const eventId = body.eventId;
+    if (!db.events.some((e) => e.eventId === eventId)) {
+        return jsonError(404, "Evento no encontrado.");
+    }
+
+    if (db.registrations.some((reg) => reg.eventId === eventId && reg.userId === user.userId)) {
+        return jsonError(409, "Ya estás inscrito en este evento.");
+    }
+
+    const registration: Registration = {
+        regId: nextStringId("R", db.registrations.map((reg) => reg.regId)),
+        eventId,
+        userId: user.userId,
+        registeredAt: new Date().toISOString(),
+    };
+    db.registrations.push(registration);
+
+    return json(registration, 201);
+}
@@ -0,0 +1,43 @@
+// src/app/api/mock/users/[id]/password/route.ts
+//
+// PUT /users/{id}/password { currentPassword, newPassword } → 204
+//
+// Solo el propio usuario (si no 403). Si currentPassword no coincide
+// también responde 403: NO 401, que la app interpreta como sesión vencida.
+
+import { getDb } from "../../../_lib/db";
+import {
+    authenticate,
+    jsonError,
+    noContent,
+    readJson,
+    unauthorized,
+} from "../../../_lib/http";
+import { parsePasswordChangeInput } from "../../../_lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+    const current = authenticate(request);
+    if (!current) return unauthorized();
+
+    const { id } = await params;
+    if (current.userId !== id) {
+        return jsonError(403, "Solo puedes cambiar tu propia contraseña.");
+    }
+
+    const input = parsePasswordChangeInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    const db = getDb();
+    const user = db.users.find((u) => u.userId === id);
+    if (!user) return jsonError(404, "Usuario no encontrado.");
+
+    if (user.password !== input.currentPassword) {
+        return jsonError(403, "La contraseña actual no es correcta.");
+    }
+
+    user.password = input.newPassword;
+
+    return noContent();
+}
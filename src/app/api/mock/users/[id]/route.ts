@@ -0,0 +1,88 @@
+// src/app/api/mock/users/[id]/route.ts
+//
+// GET   /users/{id} → detalle de un usuario
+// PATCH /users/{id} → actualizar name, email y/o city (el propio usuario
+//                     o un admin, si no 403). Email de otro usuario → 409.
+//                     El role no se cambia por aquí.
+// DELETE /users/{id} → eliminar (solo admin, si no 403). 409 si es la
+//                     propia cuenta o si todavía tiene eventos creados.
+//                     También borra sus inscripciones.
+
+import { can } from "@/lib/permissions";
+import { getDb, toPublicUser } from "../../_lib/db";
+import {
+    authenticate,
+    json,
+    jsonError,
+    noContent,
+    readJson,
+    unauthorized,
+} from "../../_lib/http";
+import { parseUserUpdateInput } from "../../_lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+    if (!authenticate(request)) return unauthorized();
+
+    const { id } = await params;
+    const user = getDb().users.find((u) => u.userId === id);
+    if (!user) return jsonError(404, "Usuario no encontrado.");
+
+    return json(toPublicUser(user));
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+    const current = authenticate(request);
+    if (!current) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const index = db.users.findIndex((u) => u.userId === id);
+    if (index === -1) return jsonError(404, "Usuario no encontrado.");
+
+    if (!can(current, "user:update", db.users[index])) {
+        return jsonError(403, "Solo puedes editar tu propio perfil.");
+    }
+
+    const input = parseUserUpdateInput(await readJson(request));
+    if (typeof input === "string") return jsonError(400, input);
+
+    if (
+        input.email !== undefined &&
+        db.users.some((u) => u.userId !== id && u.email.toLowerCase() === input.email)
+    ) {
+        return jsonError(409, "Ya existe un usuario con ese email.");
+    }
+
+    db.users[index] = { ...db.users[index], ...input };
+
+    return json(toPublicUser(db.users[index]));
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+    const current = authenticate(request);
+    if (!current) return unauthorized();
+
+    const { id } = await params;
+    const db = getDb();
+    const user = db.users.find((u) => u.userId === id);
+    if (!user) return jsonError(404, "Usuario no encontrado.");
+
+    if (!can(current, "user:delete", user)) {
+        return jsonError(403, "Solo un administrador puede eliminar usuarios.");
+    }
+
+    if (current.userId === id) {
+        return jsonError(409, "No puedes eliminar tu propia cuenta.");
+    }
+
+    if (db.events.some((e) => e.createdBy === id)) {
+        return jsonError(409, "El usuario tiene eventos creados; reasígnalos o elimínalos primero.");
+    }
+
+    db.users = db.users.filter((u) => u.userId !== id);
+    db.registrations = db.registrations.filter((reg) => reg.userId !== id);
+
+    return noContent();
+}
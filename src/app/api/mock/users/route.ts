@@ -0,0 +1,69 @@
+// src/app/api/mock/users/route.ts
+//
+// GET  /users → lista de usuarios
+// POST /users { name, email, city, password, role? } → usuario creado
+//
+// Regla del parcial: un usuario lo crea otro usuario autenticado.
+// Además solo un admin puede crear usuarios (si no 403).
+// Email duplicado → 409. Sin role (o inválido → 400) queda como attendee.
+
+import { can, DEFAULT_ROLE, USER_ROLES } from "@/lib/permissions";
+import { getDb, nextStringId, toPublicUser } from "../_lib/db";
+import {
+    authenticate,
+    isNonEmptyString,
+    json,
+    jsonError,
+    readJson,
+    unauthorized,
+} from "../_lib/http";
+import type { User, UserRole } from "@/lib/types";
+
+export async function GET(request: Request) {
+    if (!authenticate(request)) return unauthorized();
+
+    return json(getDb().users.map(toPublicUser));
+}
+
+export async function POST(request: Request) {
+    const current = authenticate(request);
+    if (!current) return unauthorized();
+
+    if (!can(current, "user:create")) {
+        return jsonError(403, "Solo un administrador puede crear usuarios.");
+    }
+
+    const body = await readJson(request);
+    if (
+        !body ||
+        !isNonEmptyString(body.name) ||
+        !isNonEmptyString(body.email) ||
+        !isNonEmptyString(body.city) ||
+        !isNonEmptyString(body.password)
+    ) {
+        return jsonError(400, "name, email, city y password son obligatorios.");
+    }
+
+    const role = body.role ?? DEFAULT_ROLE;
+    if (!USER_ROLES.includes(role as UserRole)) {
+        return jsonError(400, `role debe ser uno de: ${USER_ROLES.join(", ")}.`);
+    }
+
+    const db = getDb();
+    const email = body.email.trim().toLowerCase();
+    if (db.users.some((u) => u.email.toLowerCase() === email)) {
+        return jsonError(409, "Ya existe un usuario con ese email.");
+    }
+
+    const user: User = {
+        userId: nextStringId("U", db.users.map((u) => u.userId)),
+        name: body.name.trim(),
+        email,
+        city: body.city.trim(),
+        password: body.password,
+        role: role as UserRole,
+    };
+    db.users.push(user);
+
+    return json(toPublicUser(user), 201);
+}
@@ -0,0 +1,51 @@
+// src/app/api/session/route.ts
+//
+// ROUTE HANDLER DE SESIÓN
+// Ruta: /api/session
+//
+// Refleja la sesión del cliente (authStore) en una cookie httpOnly para que
+// middleware.ts pueda proteger las rutas en el servidor.
+//
+// - POST   { token } → guarda la cookie (LoginPage, después de loginApi).
+// - DELETE           → borra la cookie (authStore.logout()).
+//
+// La cookie es httpOnly: JavaScript del navegador no la puede leer, así que
+// apiFetch sigue usando el token guardado en localStorage por authStore.
+
+import { NextResponse } from "next/server";
+
+import { SESSION_COOKIE, getTokenExpiration } from "@/lib/session";
+
+// Duración por defecto si el token no es un JWT con exp: 7 días.
+const DEFAULT_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { token?: unknown } | null;
+
+  if (!body || typeof body.token !== "string" || !body.token) {
+    return NextResponse.json({ message: "token es obligatorio" }, { status: 400 });
+  }
+
+  // Si el JWT trae exp, la cookie vence al mismo tiempo que el token.
+  const expiresAt = getTokenExpiration(body.token);
+  const maxAge =
+    expiresAt === null
+      ? DEFAULT_MAX_AGE_SECONDS
+      : Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, body.token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  });
+  return res;
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
@@ -0,0 +1,188 @@
+// src/components/AdminEventsPanel.tsx
+"use client";
+
+/**
+ * CONSOLA DE ADMINISTRACIÓN: EVENTOS
+ *
+ * Tabla de todos los eventos (GET /events sin paginar) con búsqueda, orden,
+ * eliminación en lote (DELETE /events/{id}) previa confirmación y
+ * reasignación del creador por fila (PATCH /events/{id} { createdBy }).
+ *
+ * Conexiones:
+ * - useEvents / useUsers (queries.ts): filas y nombres de los creadores.
+ * - deleteEvents, reassignEvent, describeBulkResult (queries.ts).
+ * - AdminTable, ConfirmDialog.
+ */
+
+import Link from "next/link";
+import { useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import {
+    deleteEvents,
+    describeBulkResult,
+    reassignEvent,
+    useEvents,
+    useUsers,
+} from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import type { Event, User } from "@/lib/types";
+import AdminTable, { type AdminColumn } from "./AdminTable";
+import ConfirmDialog from "./ConfirmDialog";
+
+export default function AdminEventsPanel() {
+    const token = useAuthStore((state) => state.token);
+
+    const eventsQuery = useEvents();
+    const usersQuery = useUsers();
+
+    const events = eventsQuery.data?.items ?? [];
+    const users = usersQuery.data ?? [];
+
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [confirmOpen, setConfirmOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const creatorName = (event: Event) =>
+        users.find((u) => u.userId === event.createdBy)?.name ?? event.createdBy;
+
+    const columns: AdminColumn<Event>[] = [
+        { key: "name", label: "Nombre", sortValue: (e) => e.name },
+        { key: "date", label: "Fecha", sortValue: (e) => e.date },
+        { key: "city", label: "Ciudad", sortValue: (e) => e.city },
+        { key: "createdBy", label: "Creador", sortValue: creatorName },
+        { key: "participants", label: "Inscritos", sortValue: (e) => e.participantsCount ?? 0 },
+    ];
+
+    async function handleConfirm() {
+        if (!token) return;
+
+        try {
+            setLoading(true);
+            const result = await deleteEvents(token, Array.from(selected));
+            setMessage(
+                describeBulkResult(result, "eliminados", (err) =>
+                    getErrorMessage(err, { not_found: "El evento ya no existe." }, "No se pudo eliminar el evento.")
+                )
+            );
+            setSelected(new Set(result.failed.map((f) => f.item)));
+            setConfirmOpen(false);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    if (eventsQuery.isLoading) {
+        return <p className="text-sm text-gray-500">Cargando eventos...</p>;
+    }
+    if (eventsQuery.error && !eventsQuery.data) {
+        return <p className="text-sm text-red-600">No se pudieron cargar los eventos.</p>;
+    }
+
+    return (
+        <>
+            {message && <p className="text-xs text-gray-700 mb-2">{message}</p>}
+
+            <AdminTable
+                rows={events}
+                columns={columns}
+                getRowId={(e) => e.eventId}
+                searchText={(e) => `${e.name} ${e.city} ${e.eventId} ${creatorName(e)}`}
+                selected={selected}
+                onSelectedChange={setSelected}
+                rowActions={(e) => <ReassignControl event={e} users={users} onDone={setMessage} />}
+                toolbar={
+                    <button
+                        type="button"
+                        disabled={selected.size === 0}
+                        onClick={() => setConfirmOpen(true)}
+                        className="bg-red-600 text-white text-xs px-2 py-1 rounded disabled:opacity-50"
+                    >
+                        Eliminar seleccionados ({selected.size})
+                    </button>
+                }
+                emptyMessage="Ningún evento coincide con la búsqueda."
+            />
+
+            <ConfirmDialog
+                open={confirmOpen}
+                title="Eliminar eventos"
+                message={`¿Seguro que quieres eliminar ${selected.size} evento(s)? También se borran sus inscripciones. Esta acción no se puede deshacer.`}
+                loading={loading}
+                onConfirm={handleConfirm}
+                onCancel={() => setConfirmOpen(false)}
+            />
+        </>
+    );
+}
+
+// Selector de nuevo creador + botón "Reasignar" para una fila.
+function ReassignControl({
+    event,
+    users,
+    onDone,
+}: {
+    event: Event;
+    users: User[];
+    onDone: (message: string) => void;
+}) {
+    const token = useAuthStore((state) => state.token);
+
+    const [createdBy, setCreatedBy] = useState(event.createdBy);
+    const [loading, setLoading] = useState(false);
+
+    async function handleReassign() {
+        if (!token || createdBy === event.createdBy) return;
+
+        try {
+            setLoading(true);
+            await reassignEvent(token, event.eventId, createdBy);
+            onDone(`"${event.name}" reasignado.`);
+        } catch (err) {
+            onDone(
+                getErrorMessage(
+                    err,
+                    { forbidden: "Solo un administrador puede reasignar eventos." },
+                    `No se pudo reasignar "${event.name}".`
+                )
+            );
+            setCreatedBy(event.createdBy);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <span className="inline-flex items-center gap-1">
+            <Link href={`/events/${event.eventId}`} className="text-blue-700 hover:underline mr-1">
+                Ver
+            </Link>
+            <select
+                aria-label="Nuevo creador"
+                className="border rounded px-1 py-0.5"
+                value={createdBy}
+                disabled={loading}
+                onChange={(e) => setCreatedBy(e.target.value)}
+            >
+                {/* Si el creador ya no está en la lista, lo dejamos como opción. */}
+                {!users.some((u) => u.userId === event.createdBy) && (
+                    <option value={event.createdBy}>{event.createdBy}</option>
+                )}
+                {users.map((u) => (
+                    <option key={u.userId} value={u.userId}>
+                        {u.name}
+                    </option>
+                ))}
+            </select>
+            <button
+                type="button"
+                disabled={loading || createdBy === event.createdBy}
+                onClick={handleReassign}
+                className="border px-2 py-0.5 rounded disabled:opacity-50"
+            >
+                {loading ? "..." : "Reasignar"}
+            </button>
+        </span>
+    );
+}
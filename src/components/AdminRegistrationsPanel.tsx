@@ -0,0 +1,151 @@
+// src/components/AdminRegistrationsPanel.tsx
+"use client";
+
+/**
+ * CONSOLA DE ADMINISTRACIÓN: INSCRIPCIONES
+ *
+ * Tabla de TODAS las inscripciones (GET /registrations, sin filtros) con
+ * búsqueda, orden y desinscripción forzada (DELETE /registrations/{regId}),
+ * por fila o en lote, siempre previa confirmación.
+ *
+ * Conexiones:
+ * - useRegistrations / useUsers / useEvents (queries.ts): filas y nombres.
+ * - deleteRegistrations + describeBulkResult (queries.ts).
+ * - AdminTable, ConfirmDialog.
+ */
+
+import { useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import {
+    deleteRegistrations,
+    describeBulkResult,
+    useEvents,
+    useRegistrations,
+    useUsers,
+} from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import type { Registration } from "@/lib/types";
+import AdminTable, { type AdminColumn } from "./AdminTable";
+import ConfirmDialog from "./ConfirmDialog";
+
+export default function AdminRegistrationsPanel() {
+    const token = useAuthStore((state) => state.token);
+
+    const registrationsQuery = useRegistrations();
+    const usersQuery = useUsers();
+    const eventsQuery = useEvents();
+
+    const registrations = registrationsQuery.data ?? [];
+    const users = usersQuery.data ?? [];
+    const events = eventsQuery.data?.items ?? [];
+
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    // Inscripciones a desinscribir (null = diálogo cerrado).
+    const [pending, setPending] = useState<Registration[] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const userName = (reg: Registration) =>
+        users.find((u) => u.userId === reg.userId)?.name ?? reg.userId;
+    const eventName = (reg: Registration) =>
+        events.find((e) => e.eventId === reg.eventId)?.name ?? reg.eventId;
+
+    const columns: AdminColumn<Registration>[] = [
+        { key: "user", label: "Usuario", sortValue: userName },
+        { key: "event", label: "Evento", sortValue: eventName },
+        {
+            key: "registeredAt",
+            label: "Inscripción",
+            sortValue: (r) => r.registeredAt,
+            render: (r) => formatDate(r.registeredAt),
+        },
+    ];
+
+    async function handleConfirm() {
+        if (!token || !pending) return;
+
+        try {
+            setLoading(true);
+            const result = await deleteRegistrations(token, pending);
+            setMessage(
+                describeBulkResult(result, "desinscritos", (err) =>
+                    getErrorMessage(
+                        err,
+                        { not_found: "La inscripción ya no existe." },
+                        "No se pudo cancelar la inscripción."
+                    )
+                )
+            );
+            const removed = new Set(result.succeeded.map((r) => r.regId));
+            setSelected((prev) => new Set(Array.from(prev).filter((id) => !removed.has(id))));
+            setPending(null);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    if (registrationsQuery.isLoading) {
+        return <p className="text-sm text-gray-500">Cargando inscripciones...</p>;
+    }
+    if (registrationsQuery.error && !registrationsQuery.data) {
+        return <p className="text-sm text-red-600">No se pudieron cargar las inscripciones.</p>;
+    }
+
+    return (
+        <>
+            {message && <p className="text-xs text-gray-700 mb-2">{message}</p>}
+
+            <AdminTable
+                rows={registrations}
+                columns={columns}
+                getRowId={(r) => r.regId}
+                searchText={(r) => `${userName(r)} ${eventName(r)} ${r.userId} ${r.eventId}`}
+                selected={selected}
+                onSelectedChange={setSelected}
+                rowActions={(r) => (
+                    <button
+                        type="button"
+                        onClick={() => setPending([r])}
+                        className="text-red-600 hover:underline"
+                    >
+                        Desinscribir
+                    </button>
+                )}
+                toolbar={
+                    <button
+                        type="button"
+                        disabled={selected.size === 0}
+                        onClick={() =>
+                            setPending(registrations.filter((r) => selected.has(r.regId)))
+                        }
+                        className="bg-red-600 text-white text-xs px-2 py-1 rounded disabled:opacity-50"
+                    >
+                        Desinscribir seleccionados ({selected.size})
+                    </button>
+                }
+                emptyMessage="Ninguna inscripción coincide con la búsqueda."
+            />
+
+            <ConfirmDialog
+                open={pending !== null}
+                title="Desinscribir"
+                message={
+                    pending?.length === 1
+                        ? `¿Seguro que quieres desinscribir a ${userName(pending[0])} de "${eventName(pending[0])}"?`
+                        : `¿Seguro que quieres cancelar ${pending?.length ?? 0} inscripciones?`
+                }
+                confirmLabel="Desinscribir"
+                loading={loading}
+                onConfirm={handleConfirm}
+                onCancel={() => setPending(null)}
+            />
+        </>
+    );
+}
+
+// Fecha legible; si no es una fecha válida, la dejamos tal cual.
+function formatDate(value: string): string {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleString("es-CO");
+}
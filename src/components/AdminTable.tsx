@@ -0,0 +1,198 @@
+// src/components/AdminTable.tsx
+"use client";
+
+/**
+ * TABLA GENÉRICA DE LA CONSOLA DE ADMINISTRACIÓN
+ *
+ * Tabla con búsqueda, orden por columna y selección múltiple (casillas).
+ * No sabe nada de la API: el panel que la usa (usuarios, eventos,
+ * inscripciones) le pasa las filas y decide qué hacer con la selección.
+ *
+ * Props:
+ * - rows: filas a mostrar.
+ * - columns: { key, label, sortValue, render? } por columna. sortValue se usa
+ *   para ordenar; render (opcional) para pintar la celda (si no, sortValue).
+ * - getRowId: id estable de cada fila (para selección y key).
+ * - searchText: texto de la fila en el que busca el input "Buscar".
+ * - selected / onSelectedChange: ids seleccionados (controlado por el padre).
+ * - isSelectable?: filas que no se pueden seleccionar (ej. el propio admin).
+ * - rowActions?: acciones por fila (última columna).
+ * - toolbar?: botones de acciones en lote, a la derecha del buscador.
+ *
+ * "Seleccionar todo" marca solo las filas visibles (las que pasan la búsqueda).
+ * Al cambiar la búsqueda se deseleccionan las filas que quedan ocultas: una
+ * acción en lote nunca toca filas que el admin no ve.
+ */
+
+import { useMemo, useState, type ReactNode } from "react";
+import { normalizeText } from "@/lib/text";
+
+export interface AdminColumn<T> {
+    key: string;
+    label: string;
+    sortValue: (row: T) => string | number;
+    render?: (row: T) => ReactNode;
+}
+
+interface AdminTableProps<T> {
+    rows: T[];
+    columns: AdminColumn<T>[];
+    getRowId: (row: T) => string;
+    searchText: (row: T) => string;
+    selected: Set<string>;
+    onSelectedChange: (selected: Set<string>) => void;
+    isSelectable?: (row: T) => boolean;
+    rowActions?: (row: T) => ReactNode;
+    toolbar?: ReactNode;
+    emptyMessage?: string;
+}
+
+// term ya normalizado; vacío = todas las filas.
+function matchesSearch(text: string, term: string): boolean {
+    return !term || normalizeText(text).includes(term);
+}
+
+export default function AdminTable<T>({
+    rows,
+    columns,
+    getRowId,
+    searchText,
+    selected,
+    onSelectedChange,
+    isSelectable = () => true,
+    rowActions,
+    toolbar,
+    emptyMessage = "No hay resultados.",
+}: AdminTableProps<T>) {
+    const [search, setSearch] = useState("");
+    const [sortKey, setSortKey] = useState(columns[0]?.key ?? "");
+    const [sortAsc, setSortAsc] = useState(true);
+
+    // Filas que pasan la búsqueda, ordenadas por la columna activa.
+    const visibleRows = useMemo(() => {
+        const term = normalizeText(search.trim());
+        const column = columns.find((c) => c.key === sortKey);
+
+        const filtered = rows.filter((row) => matchesSearch(searchText(row), term));
+
+        if (!column) return filtered;
+
+        return [...filtered].sort((a, b) => {
+            const va = column.sortValue(a);
+            const vb = column.sortValue(b);
+            const result =
+                typeof va === "number" && typeof vb === "number"
+                    ? va - vb
+                    : String(va).localeCompare(String(vb), "es");
+            return sortAsc ? result : -result;
+        });
+    }, [rows, columns, searchText, search, sortKey, sortAsc]);
+
+    const selectableVisible = visibleRows.filter(isSelectable).map(getRowId);
+    const allSelected =
+        selectableVisible.length > 0 && selectableVisible.every((id) => selected.has(id));
+
+    function handleSearch(value: string) {
+        setSearch(value);
+
+        const term = normalizeText(value.trim());
+        const stillVisible = new Set(
+            rows.filter((row) => matchesSearch(searchText(row), term)).map(getRowId)
+        );
+        const next = new Set(Array.from(selected).filter((id) => stillVisible.has(id)));
+        if (next.size !== selected.size) onSelectedChange(next);
+    }
+
+    function handleSort(key: string) {
+        if (key === sortKey) {
+            setSortAsc((prev) => !prev);
+        } else {
+            setSortKey(key);
+            setSortAsc(true);
+        }
+    }
+
+    function toggleRow(id: string) {
+        const next = new Set(selected);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        onSelectedChange(next);
+    }
+
+    function toggleAll() {
+        const next = new Set(selected);
+        selectableVisible.forEach((id) => (allSelected ? next.delete(id) : next.add(id)));
+        onSelectedChange(next);
+    }
+
+    return (
+        <section className="border rounded-md p-3 bg-white">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <input
+                    className="border rounded px-2 py-1 text-sm flex-1 min-w-[12rem]"
+                    placeholder="Buscar..."
+                    value={search}
+                    onChange={(e) => handleSearch(e.target.value)}
+                />
+                {toolbar}
+            </div>
+
+            {visibleRows.length === 0 ? (
+                <p className="text-sm text-gray-500">{emptyMessage}</p>
+            ) : (
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left border-b">
+                            <th className="py-1 w-6">
+                                <input
+                                    type="checkbox"
+                                    aria-label="Seleccionar todo"
+                                    checked={allSelected}
+                                    disabled={selectableVisible.length === 0}
+                                    onChange={toggleAll}
+                                />
+                            </th>
+                            {columns.map((column) => (
+                                <th key={column.key} className="py-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleSort(column.key)}
+                                        className="hover:underline"
+                                    >
+                                        {column.label}
+                                        {sortKey === column.key && (sortAsc ? " ▲" : " ▼")}
+                                    </button>
+                                </th>
+                            ))}
+                            {rowActions && <th className="py-1" />}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleRows.map((row) => {
+                            const id = getRowId(row);
+                            return (
+                                <tr key={id} className="border-b last:border-0">
+                                    <td className="py-1">
+                                        <input
+                                            type="checkbox"
+                                            aria-label="Seleccionar fila"
+                                            checked={selected.has(id)}
+                                            disabled={!isSelectable(row)}
+                                            onChange={() => toggleRow(id)}
+                                        />
+                                    </td>
+                                    {columns.map((column) => (
+                                        <td key={column.key} className="py-1">
+                                            {column.render ? column.render(row) : column.sortValue(row)}
+                                        </td>
+                                    ))}
+                                    {rowActions && <td className="py-1 text-right">{rowActions(row)}</td>}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+        </section>
+    );
+}
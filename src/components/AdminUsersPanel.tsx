@@ -0,0 +1,135 @@
+// src/components/AdminUsersPanel.tsx
+"use client";
+
+/**
+ * CONSOLA DE ADMINISTRACIÓN: USUARIOS
+ *
+ * Tabla de todos los usuarios (GET /users) con búsqueda, orden y
+ * eliminación en lote (DELETE /users/{id}) previa confirmación.
+ *
+ * - El admin no puede seleccionarse a sí mismo.
+ * - El backend rechaza (409) borrar usuarios que todavía tienen eventos
+ *   creados: se reasignan antes desde el panel de eventos.
+ *
+ * Conexiones:
+ * - useUsers / useEvents (queries.ts): filas y conteo de eventos creados.
+ * - deleteUsers + describeBulkResult (queries.ts).
+ * - AdminTable, ConfirmDialog.
+ */
+
+import Link from "next/link";
+import { useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { deleteUsers, describeBulkResult, useEvents, useUsers } from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import { getRole, ROLE_LABELS } from "@/lib/permissions";
+import type { User } from "@/lib/types";
+import AdminTable, { type AdminColumn } from "./AdminTable";
+import ConfirmDialog from "./ConfirmDialog";
+
+export default function AdminUsersPanel() {
+    const token = useAuthStore((state) => state.token);
+    const currentUser = useAuthStore((state) => state.user);
+
+    const usersQuery = useUsers();
+    const eventsQuery = useEvents();
+
+    const users = usersQuery.data ?? [];
+    const events = eventsQuery.data?.items ?? [];
+
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [confirmOpen, setConfirmOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    // Eventos creados por cada usuario.
+    const createdCount = (user: User) =>
+        events.filter((event) => event.createdBy === user.userId).length;
+
+    const columns: AdminColumn<User>[] = [
+        { key: "name", label: "Nombre", sortValue: (u) => u.name },
+        { key: "email", label: "Email", sortValue: (u) => u.email },
+        { key: "city", label: "Ciudad", sortValue: (u) => u.city },
+        {
+            key: "role",
+            label: "Rol",
+            sortValue: (u) => getRole(u) ?? "",
+            render: (u) => {
+                const role = getRole(u);
+                return role ? ROLE_LABELS[role] : "—";
+            },
+        },
+        { key: "events", label: "Eventos creados", sortValue: createdCount },
+    ];
+
+    async function handleConfirm() {
+        if (!token) return;
+
+        try {
+            setLoading(true);
+            const result = await deleteUsers(token, Array.from(selected));
+            setMessage(
+                describeBulkResult(result, "eliminados", (err) =>
+                    getErrorMessage(
+                        err,
+                        { forbidden: "Solo un administrador puede eliminar usuarios." },
+                        "No se pudo eliminar el usuario."
+                    )
+                )
+            );
+            setSelected(new Set(result.failed.map((f) => f.item)));
+            setConfirmOpen(false);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    if (usersQuery.isLoading) {
+        return <p className="text-sm text-gray-500">Cargando usuarios...</p>;
+    }
+    if (usersQuery.error && !usersQuery.data) {
+        return <p className="text-sm text-red-600">No se pudieron cargar los usuarios.</p>;
+    }
+
+    return (
+        <>
+            {message && <p className="text-xs text-gray-700 mb-2">{message}</p>}
+
+            <AdminTable
+                rows={users}
+                columns={columns}
+                getRowId={(u) => u.userId}
+                searchText={(u) => `${u.name} ${u.email} ${u.city} ${u.userId}`}
+                selected={selected}
+                onSelectedChange={setSelected}
+                isSelectable={(u) => u.userId !== currentUser?.userId}
+                rowActions={(u) => (
+                    <Link href={`/users/${u.userId}`} className="text-blue-700 hover:underline">
+                        Ver
+                    </Link>
+                )}
+                toolbar={
+                    <button
+                        type="button"
+                        disabled={selected.size === 0}
+                        onClick={() => setConfirmOpen(true)}
+                        className="bg-red-600 text-white text-xs px-2 py-1 rounded disabled:opacity-50"
+                    >
+                        Eliminar seleccionados ({selected.size})
+                    </button>
+                }
+                emptyMessage="Ningún usuario coincide con la búsqueda."
+            />
+
+            <ConfirmDialog
+                open={confirmOpen}
+                title="Eliminar usuarios"
+                message={`¿Seguro que quieres eliminar ${selected.size} usuario(s)? También se borran sus inscripciones. Esta acción no se puede deshacer.`}
+                loading={loading}
+                onConfirm={handleConfirm}
+                onCancel={() => setConfirmOpen(false)}
+            />
+        </>
+    );
+}
@@ -0,0 +1,194 @@
+// src/components/AttendeeList.tsx
+"use client";
+
+/**
+ * LISTA DE ASISTENTES DE UN EVENTO
+ *
+ * Muestra una tabla con nombre, ciudad, fecha de inscripción y estado
+ * (confirmado / lista de espera) de cada inscripción.
+ *
+ * Props:
+ * - registrations: inscripciones del evento.
+ * - usersById: mapa userId → User ya resuelto por el padre (resolveUsers).
+ * - capacity: cupos del evento, para marcar quién está en lista de espera.
+ * - canManage: true si el usuario actual puede gestionar el evento (creador
+ *   o admin) → puede ordenar y exportar a CSV (attendeesToCsv, eventExport.ts).
+ * - eventName: para el nombre del archivo exportado.
+ *
+ * No llama a la API: el padre (EventDetailPage) resuelve los usuarios en lote.
+ * Las inscripciones optimistas (id temporal) salen atenuadas como "Pendiente".
+ */
+
+import { useState } from "react";
+import type { Registration, User } from "@/lib/types";
+import { splitByCapacity } from "@/lib/capacity";
+import { downloadFile } from "@/lib/csv";
+import { attendeesToCsv, CSV_MIME_TYPE } from "@/lib/eventExport";
+import { isTempId } from "@/lib/optimistic";
+import { slugify } from "@/lib/text";
+
+type SortField = "registeredAt" | "name" | "city";
+
+interface AttendeeListProps {
+    registrations: Registration[];
+    usersById: Record<string, User>;
+    capacity?: number;
+    canManage?: boolean;
+    eventName: string;
+}
+
+interface AttendeeRow {
+    regId: string;
+    userId: string;
+    name: string;
+    city: string;
+    registeredAt: string;
+    waitlisted: boolean;
+    pending: boolean;
+}
+
+export default function AttendeeList({
+    registrations,
+    usersById,
+    capacity,
+    canManage = false,
+    eventName,
+}: AttendeeListProps) {
+    const [sortField, setSortField] = useState<SortField>("registeredAt");
+    const [sortAsc, setSortAsc] = useState(true);
+
+    // Filas base en orden de inscripción, marcando la lista de espera.
+    const { confirmed, waitlist } = splitByCapacity(registrations, capacity);
+    const rows: AttendeeRow[] = [...confirmed, ...waitlist].map((reg, index) => {
+        const user = usersById[reg.userId];
+        return {
+            regId: reg.regId,
+            userId: reg.userId,
+            // Si el usuario no se pudo resolver mostramos al menos su id.
+            name: user?.name ?? reg.userId,
+            city: user?.city ?? "—",
+            registeredAt: reg.registeredAt,
+            waitlisted: index >= confirmed.length,
+            pending: isTempId(reg.regId),
+        };
+    });
+
+    // Solo quien gestiona el evento puede cambiar el orden; el resto ve el orden de inscripción.
+    const sortedRows = canManage
+        ? [...rows].sort((a, b) => {
+              const result = a[sortField].localeCompare(b[sortField], "es");
+              return sortAsc ? result : -result;
+          })
+        : rows;
+
+    function handleSort(field: SortField) {
+        if (field === sortField) {
+            setSortAsc((prev) => !prev);
+        } else {
+            setSortField(field);
+            setSortAsc(true);
+        }
+    }
+
+    // CSV en orden de inscripción (confirmados y luego lista de espera),
+    // sin las inscripciones optimistas que aún no confirmó la API.
+    function handleExport() {
+        const csv = attendeesToCsv(
+            registrations.filter((reg) => !isTempId(reg.regId)),
+            usersById,
+            capacity
+        );
+        downloadFile(`asistentes-${slugify(eventName, "evento")}.csv`, csv, CSV_MIME_TYPE);
+    }
+
+    if (!rows.length) {
+        return <p className="text-sm text-gray-500">Aún no hay asistentes.</p>;
+    }
+
+    return (
+        <section className="border rounded-md p-3 bg-white">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold text-sm">Asistentes</h3>
+                {canManage && (
+                    <button
+                        type="button"
+                        onClick={handleExport}
+                        className="border text-xs px-2 py-1 rounded"
+                    >
+                        Exportar CSV
+                    </button>
+                )}
+            </div>
+
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-left border-b">
+                        <SortableHeader label="Nombre" field="name" enabled={canManage} active={sortField} asc={sortAsc} onSort={handleSort} />
+                        <SortableHeader label="Ciudad" field="city" enabled={canManage} active={sortField} asc={sortAsc} onSort={handleSort} />
+                        <SortableHeader label="Inscripción" field="registeredAt" enabled={canManage} active={sortField} asc={sortAsc} onSort={handleSort} />
+                        <th className="py-1">Estado</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sortedRows.map((row) => (
+                        <tr
+                            key={row.regId}
+                            className={`border-b last:border-0 ${row.pending ? "opacity-60" : ""}`}
+                        >
+                            <td className="py-1">{row.name}</td>
+                            <td className="py-1">{row.city}</td>
+                            <td className="py-1">{formatDate(row.registeredAt)}</td>
+                            <td className="py-1">
+                                {row.pending ? (
+                                    <span className="text-gray-500">Pendiente...</span>
+                                ) : row.waitlisted ? (
+                                    <span className="text-amber-700">Lista de espera</span>
+                                ) : (
+                                    <span className="text-green-700">Confirmado</span>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </section>
+    );
+}
+
+// Encabezado de columna: clickeable para ordenar si enabled.
+function SortableHeader({
+    label,
+    field,
+    enabled,
+    active,
+    asc,
+    onSort,
+}: {
+    label: string;
+    field: SortField;
+    enabled: boolean;
+    active: SortField;
+    asc: boolean;
+    onSort: (field: SortField) => void;
+}) {
+    if (!enabled) {
+        return <th className="py-1">{label}</th>;
+    }
+
+    const arrow = active === field ? (asc ? " ▲" : " ▼") : "";
+
+    return (
+        <th className="py-1">
+            <button type="button" onClick={() => onSort(field)} className="hover:underline">
+                {label}
+                {arrow}
+            </button>
+        </th>
+    );
+}
+
+// Fecha legible; si no es una fecha válida, la dejamos tal cual.
+function formatDate(value: string): string {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleString("es-CO");
+}
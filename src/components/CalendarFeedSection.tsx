@@ -0,0 +1,156 @@
+// src/components/CalendarFeedSection.tsx
+"use client";
+
+/**
+ * SUSCRIPCIÓN DE CALENDARIO (en ProfilePage)
+ *
+ * Muestra la URL del feed iCalendar con los eventos a los que el usuario
+ * está inscrito, para suscribirse desde Google Calendar, Thunderbird, etc.
+ * El calendario se actualiza solo cuando un evento cambia o el usuario sale
+ * de él.
+ *
+ * - "Generar enlace" / "Regenerar enlace": crea el feed o cambia su token
+ *   (la URL anterior deja de funcionar).
+ * - "Revocar": borra el feed, previa confirmación.
+ *
+ * La URL es secreta: quien la tenga ve el calendario sin iniciar sesión.
+ *
+ * Conexiones:
+ * - useCalendarFeed, createCalendarFeed, revokeCalendarFeed (queries.ts).
+ * - ConfirmDialog.
+ */
+
+import { useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { createCalendarFeed, revokeCalendarFeed, useCalendarFeed } from "@/lib/queries";
+import ConfirmDialog from "./ConfirmDialog";
+
+export default function CalendarFeedSection() {
+    const token = useAuthStore((state) => state.token);
+    const { data: url, error: loadError, isLoading } = useCalendarFeed();
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [confirmOpen, setConfirmOpen] = useState(false);
+
+    async function handleCreate() {
+        if (!token) return;
+        setError(null);
+        setCopied(false);
+
+        try {
+            setLoading(true);
+            await createCalendarFeed(token);
+        } catch {
+            setError("No se pudo generar el enlace del calendario.");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleRevoke() {
+        if (!token) return;
+        setError(null);
+
+        try {
+            setLoading(true);
+            await revokeCalendarFeed(token);
+            setConfirmOpen(false);
+        } catch {
+            setError("No se pudo revocar el enlace del calendario.");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleCopy() {
+        if (!url) return;
+        try {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+        } catch {
+            // Sin permiso de portapapeles: el usuario puede copiarla a mano.
+        }
+    }
+
+    if (isLoading) {
+        return <p className="text-sm text-gray-500">Cargando...</p>;
+    }
+
+    return (
+        <div className="flex flex-col gap-2 text-sm">
+            <p className="text-xs text-gray-600">
+                Suscríbete a esta URL desde Google Calendar, Thunderbird u otra app de
+                calendario para ver tus eventos y que se actualicen solos. No la compartas:
+                quien la tenga puede ver tu calendario.
+            </p>
+
+            {url ? (
+                <>
+                    <div className="flex gap-2">
+                        <input
+                            readOnly
+                            aria-label="URL del calendario"
+                            value={url}
+                            onFocus={(e) => e.target.select()}
+                            className="border rounded px-2 py-1 text-xs flex-1"
+                        />
+                        <button
+                            type="button"
+                            onClick={handleCopy}
+                            className="border text-xs px-2 py-1 rounded"
+                        >
+                            {copied ? "Copiada" : "Copiar"}
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            disabled={loading}
+                            onClick={handleCreate}
+                            className="border text-xs px-2 py-1 rounded disabled:opacity-50"
+                        >
+                            Regenerar enlace
+                        </button>
+                        <button
+                            type="button"
+                            disabled={loading}
+                            onClick={() => setConfirmOpen(true)}
+                            className="text-xs px-2 py-1 rounded text-red-600 border border-red-300 disabled:opacity-50"
+                        >
+                            Revocar
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <button
+                    type="button"
+                    disabled={loading}
+                    onClick={handleCreate}
+                    className="self-start bg-blue-600 text-white text-xs px-3 py-1 rounded disabled:opacity-60"
+                >
+                    {loading ? "Generando..." : "Generar enlace"}
+                </button>
+            )}
+
+            {(error || (!!loadError && url === undefined)) && (
+                <p className="text-xs text-red-600">
+                    {error ?? "No se pudo cargar el estado del calendario."}
+                </p>
+            )}
+
+            <ConfirmDialog
+                open={confirmOpen}
+                title="Revocar enlace del calendario"
+                message="Las apps suscritas a este enlace dejarán de recibir tus eventos. Puedes generar uno nuevo después."
+                confirmLabel="Revocar"
+                loading={loading}
+                error={error}
+                onConfirm={handleRevoke}
+                onCancel={() => setConfirmOpen(false)}
+            />
+        </div>
+    );
+}
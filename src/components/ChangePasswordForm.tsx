@@ -0,0 +1,146 @@
+// src/components/ChangePasswordForm.tsx
+"use client";
+
+/**
+ * FORMULARIO PARA CAMBIAR LA CONTRASEÑA
+ *
+ * Pide la contraseña actual, la nueva y su confirmación, y llama a
+ * PUT /users/{id}/password. El backend verifica la actual: si no coincide
+ * responde 403 (no 401, para no cerrar la sesión por un error de tipeo).
+ *
+ * Validación en el cliente:
+ * - los tres campos son obligatorios,
+ * - la nueva tiene al menos MIN_PASSWORD_LENGTH caracteres,
+ * - la nueva y la confirmación coinciden,
+ * - la nueva es distinta de la actual.
+ *
+ * El token sigue siendo válido después del cambio, así que no hace falta
+ * volver a iniciar sesión.
+ */
+
+import { FormEvent, useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { changePasswordApi } from "@/lib/api";
+import { getErrorMessage } from "@/lib/errors";
+import { MIN_PASSWORD_LENGTH } from "@/lib/validation";
+
+export default function ChangePasswordForm() {
+    const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
+
+    const [currentPassword, setCurrentPassword] = useState("");
+    const [newPassword, setNewPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+    async function handleSubmit(e: FormEvent) {
+        e.preventDefault();
+        setError(null);
+        setSuccessMsg(null);
+
+        if (!token || !user) {
+            setError("No hay token de autenticación.");
+            return;
+        }
+
+        if (!currentPassword || !newPassword || !confirmPassword) {
+            setError("Todos los campos son obligatorios.");
+            return;
+        }
+
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+            setError(`La nueva contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+            return;
+        }
+
+        if (newPassword !== confirmPassword) {
+            setError("La confirmación no coincide con la nueva contraseña.");
+            return;
+        }
+
+        if (newPassword === currentPassword) {
+            setError("La nueva contraseña debe ser distinta de la actual.");
+            return;
+        }
+
+        try {
+            setLoading(true);
+            await changePasswordApi(token, user.userId, { currentPassword, newPassword });
+
+            setSuccessMsg("Contraseña actualizada.");
+            setCurrentPassword("");
+            setNewPassword("");
+            setConfirmPassword("");
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    { forbidden: "La contraseña actual no es correcta." },
+                    "No se pudo cambiar la contraseña."
+                )
+            );
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <div className="flex flex-col gap-1">
+                <label className="text-sm">Contraseña actual</label>
+                <input
+                    type="password"
+                    autoComplete="current-password"
+                    className="border rounded px-2 py-1 text-sm"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                />
+            </div>
+
+            <div className="flex flex-col gap-1">
+                <label className="text-sm">Nueva contraseña</label>
+                <input
+                    type="password"
+                    autoComplete="new-password"
+                    className="border rounded px-2 py-1 text-sm"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                />
+            </div>
+
+            <div className="flex flex-col gap-1">
+                <label className="text-sm">Confirmar nueva contraseña</label>
+                <input
+                    type="password"
+                    autoComplete="new-password"
+                    className="border rounded px-2 py-1 text-sm"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+            </div>
+
+            {error && (
+                <p className="text-xs text-red-600">
+                    {error}
+                </p>
+            )}
+
+            {successMsg && (
+                <p className="text-xs text-green-600">
+                    {successMsg}
+                </p>
+            )}
+
+            <button
+                type="submit"
+                disabled={loading}
+                className="bg-blue-600 text-white text-sm px-3 py-1 rounded disabled:opacity-60 self-start"
+            >
+                {loading ? "Guardando..." : "Cambiar contraseña"}
+            </button>
+        </form>
+    );
+}
@@ -6,17 +6,25 @@
 // - Recibe un array de comentarios (props.comments).
 // - Si está vacío, muestra "Aún no hay comentarios".
 // - Si tiene elementos, los recorre y muestra cada comentario con autor.
+// - Los comentarios optimistas (id temporal) salen atenuados con "Enviando...".
+// - Muestra "Eliminar" en los comentarios que el usuario puede borrar
+//   (el suyo, o cualquiera si es admin: can(user, "comment:delete", comment)).
 //
 // ¿Quién lo usa?
 // - Solo PostDetailPage (src/app/(general)/posts/[id]/page.tsx)
 //
 // ¿Con qué se conecta?
-// - No llama a la API ni al store.
-// - Solo usa el tipo Comment desde src/lib/types.ts.
+// - Lee el usuario de useAuthStore solo para los permisos.
+// - DeleteCommentButton hace la llamada a la API.
+// - Usa el tipo Comment desde src/lib/types.ts e isTempId de optimistic.ts.
 
 "use client";
 
+import { useAuthStore } from "@/store/authStore";
 import type { Comment } from "@/lib/types";
+import { isTempId } from "@/lib/optimistic";
+import { can } from "@/lib/permissions";
+import DeleteCommentButton from "./DeleteCommentButton";
 
 // Definimos las props que recibe este componente:
 // 'comments' es un arreglo de Comment.
@@ -25,6 +33,8 @@ interface CommentListProps {
 }
 
 export default function CommentList({ comments }: CommentListProps) {
+    const user = useAuthStore((state) => state.user);
+
     // Si no hay comentarios en el arreglo, mostramos un mensaje vacío.
     if (!comments.length) {
         return <p className="text-sm text-gray-500">Aún no hay comentarios.</p>;
@@ -38,15 +48,21 @@ export default function CommentList({ comments }: CommentListProps) {
                 {comments.map((comment) => (
                     <li
                         key={comment.id}
-                        className="border rounded-md p-2 text-sm bg-gray-50"
+                        className={`border rounded-md p-2 text-sm bg-gray-50 ${isTempId(comment.id) ? "opacity-60" : ""}`}
                     >
                         {/* Texto principal del comentario */}
                         <p className="mb-1">{comment.body}</p>
 
                         {/* Información del autor del comentario */}
-                        <p className="text-[11px] text-gray-500">
-                            Por {comment.author.name} ({comment.author.email})
-                        </p>
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="text-[11px] text-gray-500">
+                                Por {comment.author.name} ({comment.author.email})
+                                {isTempId(comment.id) && " · Enviando..."}
+                            </p>
+                            {!isTempId(comment.id) && can(user, "comment:delete", comment) && (
+                                <DeleteCommentButton comment={comment} />
+                            )}
+                        </div>
                     </li>
                 ))}
             </ul>
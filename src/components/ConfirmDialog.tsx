@@ -0,0 +1,82 @@
+// src/components/ConfirmDialog.tsx
+"use client";
+
+/**
+ * DIÁLOGO DE CONFIRMACIÓN
+ *
+ * Modal sencillo para acciones destructivas (eliminar evento, etc.).
+ * No sabe nada de la API: el padre decide qué pasa al confirmar.
+ *
+ * Props:
+ * - open: si el diálogo está visible.
+ * - title / message: textos a mostrar.
+ * - confirmLabel: texto del botón de confirmar (por defecto "Eliminar").
+ * - loading: deshabilita los botones mientras el padre ejecuta la acción.
+ * - error: mensaje de error a mostrar dentro del diálogo (ej. 403).
+ * - onConfirm / onCancel: callbacks.
+ */
+
+interface ConfirmDialogProps {
+    open: boolean;
+    title: string;
+    message: string;
+    confirmLabel?: string;
+    loading?: boolean;
+    error?: string | null;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+export default function ConfirmDialog({
+    open,
+    title,
+    message,
+    confirmLabel = "Eliminar",
+    loading = false,
+    error,
+    onConfirm,
+    onCancel,
+}: ConfirmDialogProps) {
+    if (!open) return null;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="confirm-dialog-title"
+        >
+            <section className="bg-white rounded-md p-4 w-full max-w-sm shadow-md">
+                <h2 id="confirm-dialog-title" className="font-semibold mb-2">
+                    {title}
+                </h2>
+                <p className="text-sm text-gray-700 mb-4">{message}</p>
+
+                {error && (
+                    <p className="text-xs text-red-600 mb-2">
+                        {error}
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={loading}
+                        className="border text-sm px-3 py-1 rounded disabled:opacity-60"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onConfirm}
+                        disabled={loading}
+                        className="bg-red-600 text-white text-sm px-3 py-1 rounded disabled:opacity-60"
+                    >
+                        {loading ? "Procesando..." : confirmLabel}
+                    </button>
+                </div>
+            </section>
+        </div>
+    );
+}
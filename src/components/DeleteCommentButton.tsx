@@ -0,0 +1,92 @@
+// src/components/DeleteCommentButton.tsx
+"use client";
+
+/**
+ * BOTÓN PARA ELIMINAR UN COMENTARIO (autor o moderación de admin)
+ *
+ * Enlace pequeño "Eliminar" que abre un ConfirmDialog. Al confirmar llama
+ * DELETE /comments/{id} y el comentario sale de la lista (caché).
+ *
+ * Props:
+ * - comment: el comentario a eliminar.
+ *
+ * Quién puede verlo lo decide CommentList con can(user, "comment:delete", comment).
+ *
+ * Conexiones:
+ * - useAuthStore: token.
+ * - deleteComment: DELETE /comments/{id} (queries.ts).
+ */
+
+import { useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { deleteComment } from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import type { Comment } from "@/lib/types";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface DeleteCommentButtonProps {
+    comment: Comment;
+}
+
+export default function DeleteCommentButton({ comment }: DeleteCommentButtonProps) {
+    const token = useAuthStore((state) => state.token);
+
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleConfirm() {
+        setError(null);
+
+        if (!token) {
+            setError("No hay token de autenticación.");
+            return;
+        }
+
+        try {
+            setLoading(true);
+            await deleteComment(token, comment);
+            setOpen(false);
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    {
+                        forbidden: "Solo el autor o un administrador puede eliminar este comentario.",
+                        not_found: "El comentario ya no existe.",
+                    },
+                    "No se pudo eliminar el comentario."
+                )
+            );
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function handleCancel() {
+        setOpen(false);
+        setError(null);
+    }
+
+    return (
+        <>
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="text-[11px] text-red-600 hover:underline"
+            >
+                Eliminar
+            </button>
+
+            <ConfirmDialog
+                open={open}
+                title="Eliminar comentario"
+                message="¿Seguro que quieres eliminar este comentario? Esta acción no se puede deshacer."
+                loading={loading}
+                error={error}
+                onConfirm={handleConfirm}
+                onCancel={handleCancel}
+            />
+        </>
+    );
+}
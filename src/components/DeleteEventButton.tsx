@@ -0,0 +1,99 @@
+// src/components/DeleteEventButton.tsx
+"use client";
+
+/**
+ * BOTÓN PARA ELIMINAR UN EVENTO
+ *
+ * Muestra un botón "Eliminar evento" que abre un ConfirmDialog.
+ * Al confirmar llama DELETE /events/{id}.
+ *
+ * Props:
+ * - eventId: id del evento a eliminar.
+ * - eventName: nombre para el mensaje de confirmación.
+ * - onDeleted: callback cuando la API responde OK (la página redirige).
+ *
+ * Conexiones:
+ * - useAuthStore: token.
+ * - deleteEvent: DELETE /events/{id} (queries.ts, limpia la caché del evento)
+ * - getErrorMessage: para distinguir 403 (ni creador ni admin) de otros errores.
+ */
+
+import { useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { deleteEvent } from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface DeleteEventButtonProps {
+    eventId: string;
+    eventName: string;
+    onDeleted?: () => void;
+}
+
+export default function DeleteEventButton({
+    eventId,
+    eventName,
+    onDeleted,
+}: DeleteEventButtonProps) {
+    const token = useAuthStore((state) => state.token);
+
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleConfirm() {
+        setError(null);
+
+        if (!token) {
+            setError("No hay token de autenticación.");
+            return;
+        }
+
+        try {
+            setLoading(true);
+            await deleteEvent(token, eventId);
+            setOpen(false);
+            onDeleted?.();
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    {
+                        forbidden: "Solo el creador o un administrador puede eliminar este evento.",
+                        not_found: "El evento ya no existe.",
+                    },
+                    "No se pudo eliminar el evento."
+                )
+            );
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function handleCancel() {
+        setOpen(false);
+        setError(null);
+    }
+
+    return (
+        <>
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="bg-red-600 text-white text-sm px-3 py-1 rounded"
+            >
+                Eliminar evento
+            </button>
+
+            <ConfirmDialog
+                open={open}
+                title="Eliminar evento"
+                message={`¿Seguro que quieres eliminar "${eventName}"? Esta acción no se puede deshacer.`}
+                loading={loading}
+                error={error}
+                onConfirm={handleConfirm}
+                onCancel={handleCancel}
+            />
+        </>
+    );
+}
@@ -0,0 +1,95 @@
+// src/components/DeletePostButton.tsx
+"use client";
+
+/**
+ * BOTÓN PARA ELIMINAR UN POST (autor o moderación de admin)
+ *
+ * Muestra "Eliminar post" y abre un ConfirmDialog. Al confirmar llama
+ * DELETE /posts/{id}; el backend borra también sus comentarios.
+ *
+ * Props:
+ * - post: el post a eliminar (título para el mensaje).
+ * - onDeleted: callback cuando la API responde OK (la página vuelve al feed).
+ *
+ * Quién puede verlo lo decide el padre con can(user, "post:delete", post).
+ *
+ * Conexiones:
+ * - useAuthStore: token.
+ * - deletePost: DELETE /posts/{id} (queries.ts, limpia la caché del post).
+ */
+
+import { useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { deletePost } from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import type { Post } from "@/lib/types";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface DeletePostButtonProps {
+    post: Post;
+    onDeleted?: () => void;
+}
+
+export default function DeletePostButton({ post, onDeleted }: DeletePostButtonProps) {
+    const token = useAuthStore((state) => state.token);
+
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleConfirm() {
+        setError(null);
+
+        if (!token) {
+            setError("No hay token de autenticación.");
+            return;
+        }
+
+        try {
+            setLoading(true);
+            await deletePost(token, post.id);
+            setOpen(false);
+            onDeleted?.();
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    {
+                        forbidden: "Solo el autor o un administrador puede eliminar este post.",
+                        not_found: "El post ya no existe.",
+                    },
+                    "No se pudo eliminar el post."
+                )
+            );
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function handleCancel() {
+        setOpen(false);
+        setError(null);
+    }
+
+    return (
+        <>
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="bg-red-600 text-white text-sm px-3 py-1 rounded"
+            >
+                Eliminar post
+            </button>
+
+            <ConfirmDialog
+                open={open}
+                title="Eliminar post"
+                message={`¿Seguro que quieres eliminar "${post.title}" y sus comentarios? Esta acción no se puede deshacer.`}
+                loading={loading}
+                error={error}
+                onConfirm={handleConfirm}
+                onCancel={handleCancel}
+            />
+        </>
+    );
+}
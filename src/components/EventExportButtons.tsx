@@ -0,0 +1,89 @@
+// src/components/EventExportButtons.tsx
+"use client";
+
+/**
+ * EXPORTAR EL LISTADO DE EVENTOS (CSV / .ics)
+ *
+ * Botones "Exportar CSV" y "Exportar calendario (.ics)" de /events.
+ * Exportan TODOS los eventos que cumplen los filtros actuales, no solo la
+ * página visible: piden el listado sin paginar (fetchEvents) al hacer clic.
+ *
+ * Props:
+ * - filters: filtros y orden actuales (sin page / pageSize).
+ *
+ * Conexiones:
+ * - fetchEvents / useUsers (queries.ts): eventos y nombres de los creadores.
+ * - eventsToCsv (eventExport.ts), eventsToIcs (ical.ts), downloadFile (csv.ts).
+ */
+
+import { useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { fetchEvents, useUsers } from "@/lib/queries";
+import { downloadFile } from "@/lib/csv";
+import { CSV_MIME_TYPE, eventsToCsv } from "@/lib/eventExport";
+import { eventsToIcs, ICS_MIME_TYPE } from "@/lib/ical";
+import type { EventsQuery } from "@/lib/types";
+
+type ExportFormat = "csv" | "ics";
+
+interface EventExportButtonsProps {
+    filters: EventsQuery;
+}
+
+export default function EventExportButtons({ filters }: EventExportButtonsProps) {
+    const token = useAuthStore((state) => state.token);
+    const { data: users } = useUsers();
+
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleExport(format: ExportFormat) {
+        if (!token) return;
+        setError(null);
+
+        try {
+            setExporting(format);
+            const { items } = await fetchEvents(token, filters);
+
+            if (format === "csv") {
+                const creatorNames = Object.fromEntries(
+                    (users ?? []).map((user) => [user.userId, user.name])
+                );
+                downloadFile("eventos.csv", eventsToCsv(items, creatorNames), CSV_MIME_TYPE);
+            } else {
+                const ics = eventsToIcs(items, {
+                    calendarName: "Eventos",
+                    baseUrl: window.location.origin,
+                });
+                downloadFile("eventos.ics", ics, ICS_MIME_TYPE);
+            }
+        } catch {
+            setError("No se pudo exportar el listado de eventos.");
+        } finally {
+            setExporting(null);
+        }
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+            <button
+                type="button"
+                disabled={exporting !== null}
+                onClick={() => handleExport("csv")}
+                className="border bg-white px-2 py-1 rounded disabled:opacity-50"
+            >
+                {exporting === "csv" ? "Exportando..." : "Exportar CSV"}
+            </button>
+            <button
+                type="button"
+                disabled={exporting !== null}
+                onClick={() => handleExport("ics")}
+                className="border bg-white px-2 py-1 rounded disabled:opacity-50"
+            >
+                {exporting === "ics" ? "Exportando..." : "Exportar calendario (.ics)"}
+            </button>
+            {error && <span className="text-red-600">{error}</span>}
+        </div>
+    );
+}
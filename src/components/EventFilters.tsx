@@ -5,49 +5,120 @@
  * FILTROS PARA LISTA DE EVENTOS
  *
  * - Filtro por ciudad
- * - Filtro por fecha (YYYY-MM-DD)
+ * - Rango de fechas (desde / hasta, YYYY-MM-DD)
+ * - Búsqueda libre (nombre / descripción)
+ * - Orden (campo + dirección)
  *
  * No hace la lógica de filtrado; simplemente notifica al padre vía onChange().
+ * El filtrado real lo hace el backend (GET /events?city=...&from=...).
+ * Si el padre pasa onClear, muestra el botón "Limpiar filtros".
  */
 
+import type { EventSortField, SortDirection } from "@/lib/types";
+import type { EventsFilterParams } from "@/lib/eventsSearchParams";
+
 interface EventFiltersProps {
-    city: string;
-    date: string;
-    onChange: (filters: { city: string; date: string }) => void;
+    filters: EventsFilterParams;
+    onChange: (filters: EventsFilterParams) => void;
+    onClear?: () => void;
 }
 
-export default function EventFilters({ city, date, onChange }: EventFiltersProps) {
-    function handleCityChange(value: string) {
-        onChange({ city: value, date });
-    }
-
-    function handleDateChange(value: string) {
-        onChange({ city, date: value });
+export default function EventFilters({ filters, onChange, onClear }: EventFiltersProps) {
+    // Actualiza un solo campo; "" se manda como undefined (= sin filtro).
+    function handleChange<K extends keyof EventsFilterParams>(
+        key: K,
+        value: EventsFilterParams[K] | ""
+    ) {
+        onChange({ ...filters, [key]: value === "" ? undefined : value });
     }
 
     return (
         <section className="border rounded-md p-3 mb-4 bg-white flex flex-col gap-3">
-            <h2 className="font-semibold text-sm">Filtros de eventos</h2>
+            <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-sm">Filtros de eventos</h2>
+                {onClear && (
+                    <button
+                        type="button"
+                        onClick={onClear}
+                        className="text-xs text-blue-600 hover:underline"
+                    >
+                        Limpiar filtros
+                    </button>
+                )}
+            </div>
 
             <div className="flex flex-col gap-1">
-                <label className="text-xs">Ciudad</label>
+                <label className="text-xs">Buscar</label>
                 <input
                     className="border rounded px-2 py-1 text-sm"
-                    value={city}
-                    onChange={(e) => handleCityChange(e.target.value)}
-                    placeholder="Ej: Bogotá"
+                    value={filters.q ?? ""}
+                    onChange={(e) => handleChange("q", e.target.value)}
+                    placeholder="Nombre o descripción"
                 />
             </div>
 
             <div className="flex flex-col gap-1">
-                <label className="text-xs">Fecha</label>
+                <label className="text-xs">Ciudad</label>
                 <input
-                    type="date"
                     className="border rounded px-2 py-1 text-sm"
-                    value={date}
-                    onChange={(e) => handleDateChange(e.target.value)}
+                    value={filters.city ?? ""}
+                    onChange={(e) => handleChange("city", e.target.value)}
+                    placeholder="Ej: Bogotá"
                 />
             </div>
+
+            <div className="flex gap-3">
+                <div className="flex flex-col gap-1 flex-1">
+                    <label className="text-xs">Desde</label>
+                    <input
+                        type="date"
+                        className="border rounded px-2 py-1 text-sm"
+                        value={filters.from ?? ""}
+                        onChange={(e) => handleChange("from", e.target.value)}
+                    />
+                </div>
+
+                <div className="flex flex-col gap-1 flex-1">
+                    <label className="text-xs">Hasta</label>
+                    <input
+                        type="date"
+                        className="border rounded px-2 py-1 text-sm"
+                        value={filters.to ?? ""}
+                        onChange={(e) => handleChange("to", e.target.value)}
+                    />
+                </div>
+            </div>
+
+            <div className="flex gap-3">
+                <div className="flex flex-col gap-1 flex-1">
+                    <label className="text-xs">Ordenar por</label>
+                    <select
+                        className="border rounded px-2 py-1 text-sm"
+                        value={filters.sortBy ?? "date"}
+                        onChange={(e) =>
+                            handleChange("sortBy", e.target.value as EventSortField)
+                        }
+                    >
+                        <option value="date">Fecha</option>
+                        <option value="name">Nombre</option>
+                        <option value="city">Ciudad</option>
+                    </select>
+                </div>
+
+                <div className="flex flex-col gap-1 flex-1">
+                    <label className="text-xs">Dirección</label>
+                    <select
+                        className="border rounded px-2 py-1 text-sm"
+                        value={filters.sortDir ?? "asc"}
+                        onChange={(e) =>
+                            handleChange("sortDir", e.target.value as SortDirection)
+                        }
+                    >
+                        <option value="asc">Ascendente</option>
+                        <option value="desc">Descendente</option>
+                    </select>
+                </div>
+            </div>
         </section>
     );
 }
@@ -10,23 +10,37 @@
  *
  * Props:
  * - initialEvent?: Event   → datos para edición (opcional).
- * - onEventSaved?: (event: Event) => void → se llama cuando la API responde OK.
+ * - onEventSaved?: (event: Event) => void → al crear, se llama cuando la API
+ *   responde OK; al editar, se llama al instante con la versión optimista
+ *   (el padre puede salir del modo edición sin esperar al servidor).
+ * - onCancel?: () => void → si se pasa, muestra un botón "Cancelar"
+ *   (útil en modo edición dentro de EventDetailPage).
+ *
+ * Quién puede crear o editar lo decide permissions.ts ("event:create" /
+ * "event:update"): el padre solo muestra el formulario si se puede, y aquí
+ * se vuelve a comprobar antes de llamar a la API.
+ *
+ * Usa createEvent / updateEvent de queries.ts: son optimistas, así que el
+ * evento aparece / cambia en pantalla antes de que responda el servidor.
+ * Si la API falla, el cambio se deshace y se muestra un aviso de error
+ * (toast); al crear, además, el formulario recupera lo escrito.
  */
 
 import { FormEvent, useState } from "react";
 import { useAuthStore } from "@/store/authStore";
-import { createEventApi, updateEventApi } from "@/lib/api";
+import { createEvent, updateEvent } from "@/lib/queries";
+import { can } from "@/lib/permissions";
 import type { Event } from "@/lib/types";
 
 interface EventFormProps {
     initialEvent?: Event;
     onEventSaved?: (event: Event) => void;
+    onCancel?: () => void;
 }
 
-export default function EventForm({ initialEvent, onEventSaved }: EventFormProps) {
-    const { token } = useAuthStore((state) => ({
-        token: state.token,
-    }));
+export default function EventForm({ initialEvent, onEventSaved, onCancel }: EventFormProps) {
+    const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
 
     // Estado local de los campos.
     const [name, setName] = useState(initialEvent?.name ?? "");
@@ -35,6 +49,10 @@ export default function EventForm({ initialEvent, onEventSaved }: EventFormProps
         initialEvent ? initialEvent.date.slice(0, 16) : "" // si viene ISO, recortamos para input datetime-local
     );
     const [city, setCity] = useState(initialEvent?.city ?? "");
+    // Cupos como string para el input; vacío = sin límite.
+    const [capacity, setCapacity] = useState(
+        initialEvent?.capacity !== undefined ? String(initialEvent.capacity) : ""
+    );
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -45,49 +63,79 @@ export default function EventForm({ initialEvent, onEventSaved }: EventFormProps
         e.preventDefault();
         setError(null);
 
-        if (!token) {
+        if (!token || !user) {
             setError("No hay token de autenticación.");
             return;
         }
 
+        const allowed = initialEvent
+            ? can(user, "event:update", initialEvent)
+            : can(user, "event:create");
+        if (!allowed) {
+            setError(
+                initialEvent
+                    ? "Solo el creador o un administrador puede editar este evento."
+                    : "Solo organizadores y administradores pueden crear eventos."
+            );
+            return;
+        }
+
         if (!name.trim() || !description.trim() || !date.trim() || !city.trim()) {
             setError("Todos los campos del evento son obligatorios.");
             return;
         }
 
-        try {
-            setLoading(true);
+        // Cupos: opcional, pero si viene debe ser un entero positivo.
+        const parsedCapacity = capacity.trim() ? Number(capacity) : undefined;
+        if (
+            parsedCapacity !== undefined &&
+            (!Number.isInteger(parsedCapacity) || parsedCapacity < 1)
+        ) {
+            setError("Los cupos deben ser un número entero mayor que 0.");
+            return;
+        }
 
-            const payload = {
-                name,
-                description,
-                // Para el parcial, la fecha se maneja como string.
-                // Ajusta el formato si el backend espera ISO completo.
-                date,
-                city,
-            };
+        const payload = {
+            name,
+            description,
+            // Para el parcial, la fecha se maneja como string.
+            // Ajusta el formato si el backend espera ISO completo.
+            date,
+            city,
+            capacity: parsedCapacity,
+        };
 
-            let savedEvent: Event;
+        try {
+            setLoading(true);
 
             if (isEditMode && initialEvent) {
-                // PUT /events/{id}
-                savedEvent = await updateEventApi(token, initialEvent.eventId, payload);
+                // PUT /events/{id}: la caché ya muestra los cambios, así que
+                // avisamos al padre sin esperar la respuesta.
+                const request = updateEvent(token, initialEvent.eventId, payload);
+                onEventSaved?.({ ...initialEvent, ...payload });
+                await request;
             } else {
-                // POST /events
-                savedEvent = await createEventApi(token, payload);
-            }
-
-            onEventSaved?.(savedEvent);
-
-            if (!isEditMode) {
-                // Si es creación, limpiamos el formulario
+                // POST /events: el evento temporal ya está en la lista, así
+                // que limpiamos el formulario de una vez.
+                const request = createEvent(token, payload, user.userId);
                 setName("");
                 setDescription("");
                 setDate("");
                 setCity("");
+                setCapacity("");
+
+                onEventSaved?.(await request);
             }
         } catch {
-            setError("No se pudo guardar el evento.");
+            // El aviso de error ya lo mostró runOptimistic (optimistic.ts).
+            // Al crear, devolvemos lo escrito para poder reintentar.
+            if (!isEditMode) {
+                setName(payload.name);
+                setDescription(payload.description);
+                setDate(payload.date);
+                setCity(payload.city);
+                setCapacity(capacity);
+            }
         } finally {
             setLoading(false);
         }
@@ -137,19 +185,45 @@ export default function EventForm({ initialEvent, onEventSaved }: EventFormProps
                     />
                 </div>
 
+                <div className="flex flex-col gap-1">
+                    <label className="text-sm">Cupos (opcional)</label>
+                    <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="border rounded px-2 py-1 text-sm"
+                        value={capacity}
+                        onChange={(e) => setCapacity(e.target.value)}
+                        placeholder="Sin límite"
+                    />
+                </div>
+
                 {error && (
                     <p className="text-xs text-red-600">
                         {error}
                     </p>
                 )}
 
-                <button
-                    type="submit"
-                    disabled={loading}
-                    className="bg-blue-600 text-white text-sm px-3 py-1 rounded disabled:opacity-60 mt-1"
-                >
-                    {loading ? "Guardando..." : isEditMode ? "Guardar cambios" : "Crear evento"}
-                </button>
+                <div className="flex gap-2 mt-1">
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="bg-blue-600 text-white text-sm px-3 py-1 rounded disabled:opacity-60"
+                    >
+                        {loading ? "Guardando..." : isEditMode ? "Guardar cambios" : "Crear evento"}
+                    </button>
+
+                    {onCancel && (
+                        <button
+                            type="button"
+                            disabled={loading}
+                            onClick={onCancel}
+                            className="border text-sm px-3 py-1 rounded disabled:opacity-60"
+                        >
+                            Cancelar
+                        </button>
+                    )}
+                </div>
             </form>
         </section>
     );
@@ -6,25 +6,54 @@
  *
  * Muestra un evento individual:
  * - nombre, descripción corta, ciudad, fecha
- * - número de participantes (si se pasa por props)
+ * - creador, con link a su perfil público /users/[createdBy]
+ * - número de participantes (si se pasa por props o viene en el evento)
+ * - si el evento tiene capacity: "N de M cupos" y cuántos hay en lista de espera
  * - link a la página de detalle /events/[eventId]
+ * - children opcionales al final (acciones, ej. "Salir del evento" en ProfilePage)
+ *
+ * Si el evento es optimista (id temporal, ver optimistic.ts) se muestra
+ * atenuado, con "Guardando..." y sin link: todavía no existe en el servidor.
+ *
+ * El nombre del creador sale de useUsers (GET /users en la caché compartida):
+ * todas las cards usan la misma clave, así que es una sola petición. Mientras
+ * no llega, se muestra el userId.
  */
 
+import type { ReactNode } from "react";
 import Link from "next/link";
 import type { Event } from "@/lib/types";
+import { countByCapacity } from "@/lib/capacity";
+import { isTempId } from "@/lib/optimistic";
+import { useUsers } from "@/lib/queries";
 
 interface EventItemProps {
     event: Event;
     participantsCount?: number;
+    children?: ReactNode;
 }
 
-export default function EventItem({ event, participantsCount }: EventItemProps) {
+export default function EventItem({ event, participantsCount, children }: EventItemProps) {
+    // Total de inscripciones: lo que pase el padre o lo que mande el backend.
+    const total = participantsCount ?? event.participantsCount;
+    const isPending = isTempId(event.eventId);
+
+    const { data: users } = useUsers();
+    const creator = users?.find((user) => user.userId === event.createdBy);
+
     return (
-        <article className="border rounded-md p-3 mb-3 bg-white">
+        <article className={`border rounded-md p-3 mb-3 bg-white ${isPending ? "opacity-60" : ""}`}>
             <h3 className="font-semibold mb-1">
-                <Link href={`/events/${event.eventId}`} className="hover:underline">
-                    {event.name}
-                </Link>
+                {isPending ? (
+                    <>
+                        {event.name}{" "}
+                        <span className="text-xs font-normal text-gray-500">Guardando...</span>
+                    </>
+                ) : (
+                    <Link href={`/events/${event.eventId}`} className="hover:underline">
+                        {event.name}
+                    </Link>
+                )}
             </h3>
 
             <p className="text-sm mb-1">{event.description}</p>
@@ -37,11 +66,41 @@ export default function EventItem({ event, participantsCount }: EventItemProps)
                 Fecha: {event.date}
             </p>
 
-            {typeof participantsCount === "number" && (
+            <p className="text-xs text-gray-600 mb-1">
+                Creado por:{" "}
+                <Link href={`/users/${event.createdBy}`} className="text-blue-700 hover:underline">
+                    {creator?.name ?? event.createdBy}
+                </Link>
+            </p>
+
+            {typeof total === "number" && event.capacity === undefined && (
                 <p className="text-xs text-gray-700">
-                    Participantes: {participantsCount}
+                    Participantes: {total}
                 </p>
             )}
+
+            {event.capacity !== undefined && (
+                <CapacityInfo total={total} capacity={event.capacity} />
+            )}
+
+            {children}
         </article>
     );
 }
+
+// "N de M cupos" + lista de espera. Si no sabemos el total, solo el cupo.
+function CapacityInfo({ total, capacity }: { total?: number; capacity: number }) {
+    if (typeof total !== "number") {
+        return <p className="text-xs text-gray-700">Cupos: {capacity}</p>;
+    }
+
+    const { confirmed, waitlisted } = countByCapacity(total, capacity);
+
+    return (
+        <p className="text-xs text-gray-700">
+            {confirmed} de {capacity} cupos
+            {confirmed >= capacity && " (lleno)"}
+            {waitlisted > 0 && ` · ${waitlisted} en lista de espera`}
+        </p>
+    );
+}
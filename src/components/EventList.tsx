@@ -6,17 +6,25 @@
  *
  * Recibe un arreglo de eventos y los renderiza usando EventItem.
  * Puede recibir, si quieres, un mapa de "eventId → #participantes".
+ * También puede recibir renderActions(event) para pintar acciones dentro de
+ * cada card (ej. botón "Salir del evento" en ProfilePage).
  */
 
+import type { ReactNode } from "react";
 import type { Event } from "@/lib/types";
 import EventItem from "./EventItem";
 
 interface EventListProps {
     events: Event[];
     participantsByEventId?: Record<string, number>;
+    renderActions?: (event: Event) => ReactNode;
 }
 
-export default function EventList({ events, participantsByEventId }: EventListProps) {
+export default function EventList({
+    events,
+    participantsByEventId,
+    renderActions,
+}: EventListProps) {
     if (!events.length) {
         return <p className="text-sm text-gray-500">No hay eventos todavía.</p>;
     }
@@ -30,7 +38,9 @@ export default function EventList({ events, participantsByEventId }: EventListPr
                     participantsCount={
                         participantsByEventId?.[event.eventId] ?? undefined
                     }
-                />
+                >
+                    {renderActions?.(event)}
+                </EventItem>
             ))}
         </section>
     );
@@ -0,0 +1,174 @@
+// src/components/NavBar.tsx
+"use client";
+
+/**
+ * BARRA DE NAVEGACIÓN (isla cliente dentro del layout general)
+ *
+ * El layout es un Server Component; solo esta barra necesita el store y la
+ * ruta actual, así que vive aparte con "use client".
+ *
+ * Muestra:
+ * - Eventos, Feed y Usuarios (solo con sesión); Admin solo si
+ *   can(user, "admin:access").
+ * - "Login" solo sin sesión.
+ * - Con sesión, el nombre del usuario con un menú desplegable:
+ *     * su rol (Administrador / Organizador / Asistente), si el backend lo manda
+ *     * Perfil
+ *     * Nuevo usuario → solo si can(user, "user:create") (admin)
+ *     * Cerrar sesión → logout() y /login.
+ *   Lo que el usuario no puede usar no se muestra (permissions.ts).
+ * - El enlace de la sección actual resaltado (ej. /events/E001 → Eventos).
+ *
+ * Conexiones:
+ * - useAuthStore: user y logout().
+ * - can / getRole (permissions.ts): qué enlaces mostrar.
+ * - usePathname: para resaltar la ruta activa y cerrar el menú al navegar.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+
+import { useAuthStore } from "@/store/authStore";
+import { can, getRole, ROLE_LABELS } from "@/lib/permissions";
+
+// true si pathname es href o cuelga de él (/events/E001 → /events).
+function isActivePath(pathname: string, href: string): boolean {
+    return pathname === href || pathname.startsWith(`${href}/`);
+}
+
+function NavLink({ href, label, pathname }: { href: string; label: string; pathname: string }) {
+    const active = isActivePath(pathname, href);
+
+    return (
+        <Link
+            href={href}
+            aria-current={active ? "page" : undefined}
+            className={active ? "font-semibold text-blue-700 underline" : "hover:underline"}
+        >
+            {label}
+        </Link>
+    );
+}
+
+export default function NavBar() {
+    const router = useRouter();
+    const pathname = usePathname();
+
+    const user = useAuthStore((state) => state.user);
+    const logout = useAuthStore((state) => state.logout);
+    // null si el backend no maneja roles: entonces no se muestra.
+    const role = getRole(user);
+
+    const [menuOpen, setMenuOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Cerrar el menú al navegar.
+    useEffect(() => {
+        setMenuOpen(false);
+    }, [pathname]);
+
+    // Cerrar el menú con un clic fuera o con Escape.
+    useEffect(() => {
+        if (!menuOpen) return;
+
+        function handleClick(e: MouseEvent) {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+                setMenuOpen(false);
+            }
+        }
+        function handleKey(e: KeyboardEvent) {
+            if (e.key === "Escape") setMenuOpen(false);
+        }
+
+        document.addEventListener("mousedown", handleClick);
+        document.addEventListener("keydown", handleKey);
+        return () => {
+            document.removeEventListener("mousedown", handleClick);
+            document.removeEventListener("keydown", handleKey);
+        };
+    }, [menuOpen]);
+
+    function handleLogout() {
+        setMenuOpen(false);
+        logout();
+        router.replace("/login");
+    }
+
+    return (
+        <header className="bg-white border-b mb-4">
+            <nav className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between">
+                <div className="font-semibold text-sm">
+                    Gestor de eventos
+                </div>
+
+                <div className="flex items-center gap-3 text-sm">
+                    {user ? (
+                        <>
+                            <NavLink href="/events" label="Eventos" pathname={pathname} />
+                            <NavLink href="/feed" label="Feed" pathname={pathname} />
+                            <NavLink href="/users" label="Usuarios" pathname={pathname} />
+                            {can(user, "admin:access") && (
+                                <NavLink href="/admin" label="Admin" pathname={pathname} />
+                            )}
+
+                            {/* Menú del usuario */}
+                            <div className="relative" ref={menuRef}>
+                                <button
+                                    type="button"
+                                    onClick={() => setMenuOpen((prev) => !prev)}
+                                    aria-haspopup="menu"
+                                    aria-expanded={menuOpen}
+                                    className={`border rounded px-2 py-1 ${
+                                        isActivePath(pathname, "/profile") ? "font-semibold text-blue-700" : ""
+                                    }`}
+                                >
+                                    {user.name} ▾
+                                </button>
+
+                                {menuOpen && (
+                                    <div
+                                        role="menu"
+                                        className="absolute right-0 mt-1 w-44 bg-white border rounded-md shadow-md z-40 flex flex-col text-sm"
+                                    >
+                                        {role && (
+                                            <span className="px-3 py-2 text-xs text-gray-500 border-b">
+                                                {ROLE_LABELS[role]}
+                                            </span>
+                                        )}
+                                        <Link
+                                            href="/profile"
+                                            role="menuitem"
+                                            className="px-3 py-2 hover:bg-gray-100"
+                                        >
+                                            Perfil
+                                        </Link>
+                                        {can(user, "user:create") && (
+                                            <Link
+                                                href="/users/new"
+                                                role="menuitem"
+                                                className="px-3 py-2 hover:bg-gray-100"
+                                            >
+                                                Nuevo usuario
+                                            </Link>
+                                        )}
+                                        <button
+                                            type="button"
+                                            role="menuitem"
+                                            onClick={handleLogout}
+                                            className="px-3 py-2 text-left text-red-600 hover:bg-gray-100"
+                                        >
+                                            Cerrar sesión
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    ) : (
+                        <NavLink href="/login" label="Login" pathname={pathname} />
+                    )}
+                </div>
+            </nav>
+        </header>
+    );
+}
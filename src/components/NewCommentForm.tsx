@@ -7,23 +7,25 @@
 // - Al enviar:
 //     * Verifica que haya token (usuario autenticado).
 //     * Verifica que el comentario no esté vacío.
-//     * Llama a la API (createCommentApi) para guardar el comentario en el servidor.
-//     * Si todo va bien:
-//         - Limpia el textarea.
-//         - Llama al callback onCommentCreated con el nuevo comentario.
+//     * Llama a createComment (queries.ts), que es OPTIMISTA: el comentario
+//       aparece al instante en la lista como "Enviando..." y se limpia el
+//       textarea sin esperar al servidor.
+//     * Si todo va bien llama al callback onCommentCreated con el comentario real.
+//     * Si falla, el comentario se quita, sale un aviso de error (toast) y el
+//       texto vuelve al textarea para reintentar.
 //
 // ¿Quién lo usa?
 // - PostDetailPage (src/app/(general)/posts/[id]/page.tsx)
 //
 // ¿Con qué se conecta?
-// - useAuthStore (para leer el token)
-// - createCommentApi de src/lib/api.ts
+// - useAuthStore (para leer el token y el usuario, que será el autor)
+// - createComment de src/lib/queries.ts
 // - Tipo Comment de src/lib/types.ts
 
 "use client";
 
 import { FormEvent, useState } from "react";
-import { createCommentApi } from "@/lib/api";
+import { createComment } from "@/lib/queries";
 import { useAuthStore } from "@/store/authStore";
 import type { Comment } from "@/lib/types";
 
@@ -43,6 +45,7 @@ export default function NewCommentForm({
     // Leemos el token del store global de autenticación.
     // Si no hay token, no deberíamos permitir crear comentarios.
     const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
 
     // Estado local para el contenido del comentario
     const [body, setBody] = useState("");
@@ -59,7 +62,7 @@ export default function NewCommentForm({
         setError(null);
 
         // Validación: no hay token → usuario no autenticado
-        if (!token) {
+        if (!token || !user) {
             setError("No hay token de autenticación.");
             return;
         }
@@ -73,17 +76,21 @@ export default function NewCommentForm({
         try {
             setLoading(true);
 
-            // Llamamos a la API para crear el comentario asociado al postId
-            const newComment = await createCommentApi(token, postId, { body });
-
-            // Limpiamos el textarea
+            // Creamos el comentario (optimista) y limpiamos el textarea ya:
+            // el comentario temporal ya se ve en la lista.
+            const request = createComment(
+                token,
+                postId,
+                { body },
+                { userId: user.userId, name: user.name, email: user.email }
+            );
             setBody("");
 
-            // Si el padre (PostDetailPage) pasó un callback, lo llamamos
-            // para que actualice el estado de comentarios en la página.
-            onCommentCreated?.(newComment);
+            // Si el padre pasó un callback, le pasamos el comentario real.
+            onCommentCreated?.(await request);
         } catch {
-            setError("No se pudo crear el comentario.");
+            // El aviso de error ya salió; devolvemos el texto para reintentar.
+            setBody(body);
         } finally {
             setLoading(false);
         }
@@ -7,22 +7,26 @@
 // - Al enviar:
 //     * Verifica que haya token.
 //     * Verifica que título y contenido no estén vacíos.
-//     * Llama a createPostApi para crear el post en el servidor.
-//     * Limpia el formulario.
-//     * Llama a onPostCreated(newPost) para que la página de feed actualice su lista.
+//     * Llama a createPost (queries.ts), que es OPTIMISTA: el post aparece
+//       al instante arriba del feed y el formulario se limpia sin esperar.
+//     * Sin conexión el post queda en la bandeja de salida y se publica
+//       cuando vuelva la conexión (outbox.ts).
+//     * Si el servidor lo rechaza, el post se quita, sale un aviso de error
+//       (toast) y el formulario recupera lo escrito.
+//     * Llama a onPostCreated(newPost) con el post ya creado (o encolado).
 //
 // ¿Quién lo usa?
 // - FeedPage (src/app/(general)/feed/page.tsx)
 //
 // ¿Con qué se conecta?
-// - useAuthStore (para leer el token).
-// - createPostApi de src/lib/api.ts.
+// - useAuthStore (para leer el token y el usuario, que será el autor).
+// - createPost de src/lib/queries.ts.
 // - Tipo Post de src/lib/types.ts.
 
 "use client";
 
 import { FormEvent, useState } from "react";
-import { createPostApi } from "@/lib/api";
+import { createPost } from "@/lib/queries";
 import { useAuthStore } from "@/store/authStore";
 import type { Post } from "@/lib/types";
 
@@ -36,6 +40,7 @@ interface NewPostFormProps {
 export default function NewPostForm({ onPostCreated }: NewPostFormProps) {
     // Token actual del usuario autenticado
     const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
 
     // Estado local para campos del formulario
     const [title, setTitle] = useState("");  // título del post
@@ -53,7 +58,7 @@ export default function NewPostForm({ onPostCreated }: NewPostFormProps) {
         setError(null);
 
         // Sin token no deberíamos intentar crear posts
-        if (!token) {
+        if (!token || !user) {
             setError("No hay token de autenticación.");
             return;
         }
@@ -67,18 +72,22 @@ export default function NewPostForm({ onPostCreated }: NewPostFormProps) {
         try {
             setLoading(true);
 
-            // Llamamos a la API para crear el post
-            const newPost = await createPostApi(token, { title, body });
-
-            // Limpiamos el formulario cuando el POST fue exitoso
+            // Creamos el post (optimista) y limpiamos el formulario ya:
+            // el post temporal ya se ve en el feed.
+            const request = createPost(
+                token,
+                { title, body },
+                { userId: user.userId, name: user.name, email: user.email }
+            );
             setTitle("");
             setBody("");
 
-            // Avisamos al padre (FeedPage) si pasó un callback
-            // para que agregue este post a la lista actual en pantalla.
-            onPostCreated?.(newPost);
-        } catch (err) {
-            setError("No se pudo crear el post.");
+            // Avisamos al padre si pasó un callback.
+            onPostCreated?.(await request);
+        } catch {
+            // El aviso de error ya salió; devolvemos lo escrito para reintentar.
+            setTitle(title);
+            setBody(body);
         } finally {
             setLoading(false);
         }
@@ -0,0 +1,119 @@
+// src/components/OutboxBanner.tsx
+"use client";
+
+/**
+ * AVISO DE SINCRONIZACIÓN (BANDEJA DE SALIDA)
+ *
+ * Se monta una sola vez en el layout (general) y:
+ * - Hidrata la bandeja de salida desde localStorage, y otra vez cada vez
+ *   que otra pestaña la cambia (evento "storage").
+ * - Reenvía las acciones pendientes (flushOutbox) al montar, al volver la
+ *   conexión (evento "online") y cuando cambia la sesión.
+ * - Muestra una barra pequeña con:
+ *     * "Sin conexión" si el navegador está offline,
+ *     * cuántas acciones del usuario faltan por sincronizar,
+ *     * los conflictos (acciones que el backend rechazó al reenviarlas),
+ *       cada uno con un botón para descartarlo.
+ *   Si no hay nada que contar no renderiza nada.
+ *
+ * Conexiones:
+ * - useOutboxStore: items, conflicts, hydrateOutbox, dismissConflict.
+ * - useAuthStore: token y user (solo se reenvía lo del usuario actual).
+ * - flushOutbox (lib/outbox.ts).
+ */
+
+import { useEffect, useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { OUTBOX_STORAGE_KEY, useOutboxStore } from "@/store/outboxStore";
+import { flushOutbox } from "@/lib/outbox";
+
+export default function OutboxBanner() {
+    const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
+
+    const items = useOutboxStore((state) => state.items);
+    const conflicts = useOutboxStore((state) => state.conflicts);
+    const hydrateOutbox = useOutboxStore((state) => state.hydrateOutbox);
+    const dismissConflict = useOutboxStore((state) => state.dismissConflict);
+
+    // Empezamos "online" para que el HTML del servidor y el del cliente
+    // coincidan; el efecto lo corrige al montar.
+    const [online, setOnline] = useState(true);
+
+    const userId = user?.userId ?? null;
+
+    // 0) Leer la bandeja guardada al montar y cuando otra pestaña la cambia
+    //    (key null = localStorage.clear())
+    useEffect(() => {
+        hydrateOutbox();
+
+        function onStorage(e: StorageEvent) {
+            if (e.key === OUTBOX_STORAGE_KEY || e.key === null) hydrateOutbox();
+        }
+
+        window.addEventListener("storage", onStorage);
+        return () => window.removeEventListener("storage", onStorage);
+    }, [hydrateOutbox]);
+
+    // 1) Seguir el estado de la conexión y reenviar al volver
+    useEffect(() => {
+        function sync() {
+            setOnline(navigator.onLine);
+            if (navigator.onLine && token && userId) {
+                void flushOutbox(token, userId);
+            }
+        }
+
+        sync();
+        window.addEventListener("online", sync);
+        window.addEventListener("offline", sync);
+        return () => {
+            window.removeEventListener("online", sync);
+            window.removeEventListener("offline", sync);
+        };
+    }, [token, userId]);
+
+    const pendingCount = items.filter((item) => item.userId === userId).length;
+    const myConflicts = conflicts.filter((conflict) => conflict.userId === userId);
+
+    if (online && pendingCount === 0 && myConflicts.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 mb-4">
+            <div className="border border-amber-300 bg-amber-50 rounded-md px-3 py-2 text-xs text-amber-900">
+                {!online && <p className="font-semibold">Sin conexión.</p>}
+
+                {pendingCount > 0 && (
+                    <p>
+                        {pendingCount === 1
+                            ? "1 acción pendiente de sincronizar."
+                            : `${pendingCount} acciones pendientes de sincronizar.`}
+                    </p>
+                )}
+
+                {myConflicts.length > 0 && (
+                    <ul className="mt-1 space-y-1">
+                        {myConflicts.map((conflict) => (
+                            <li key={conflict.id} className="flex items-start gap-2 text-red-700">
+                                <span className="flex-1">
+                                    {conflict.label}: {conflict.message}
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => dismissConflict(conflict.id)}
+                                    className="leading-none hover:opacity-70"
+                                    aria-label="Descartar"
+                                >
+                                    ×
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,50 @@
+// src/components/Pagination.tsx
+"use client";
+
+/**
+ * CONTROLES DE PAGINACIÓN
+ *
+ * Botones "Anterior" / "Siguiente" + texto "Página X de Y (N resultados)".
+ * No sabe nada de la API: el padre le pasa page, pageSize y total (del sobre
+ * Paginated) y recibe la nueva página por onPageChange.
+ */
+
+interface PaginationProps {
+    page: number;
+    pageSize: number;
+    total: number;
+    onPageChange: (page: number) => void;
+}
+
+export default function Pagination({ page, pageSize, total, onPageChange }: PaginationProps) {
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+    // Si todo cabe en una página no mostramos controles.
+    if (totalPages <= 1) return null;
+
+    return (
+        <nav className="flex items-center justify-between mt-2 mb-6 text-sm">
+            <button
+                type="button"
+                disabled={page <= 1}
+                onClick={() => onPageChange(page - 1)}
+                className="border px-3 py-1 rounded bg-white disabled:opacity-50"
+            >
+                Anterior
+            </button>
+
+            <span className="text-xs text-gray-600">
+                Página {page} de {totalPages} ({total} resultados)
+            </span>
+
+            <button
+                type="button"
+                disabled={page >= totalPages}
+                onClick={() => onPageChange(page + 1)}
+                className="border px-3 py-1 rounded bg-white disabled:opacity-50"
+            >
+                Siguiente
+            </button>
+        </nav>
+    );
+}
@@ -3,8 +3,11 @@
 // COMPONENTE QUE REPRESENTA UN SOLO POST.
 //
 // ¿Qué hace?
-// - Muestra título, contenido y autor de un post.
+// - Muestra título, contenido y autor de un post. El nombre del autor
+//   lleva a su perfil público (/users/[userId]).
 // - El título es un link que lleva a la página de detalle del post (/posts/[id]).
+// - Si el post es optimista (id temporal: publicándose o en la bandeja de
+//   salida) se muestra atenuado, como "Pendiente", y sin link.
 //
 // ¿Quién lo usa?
 // - PostList (para cada post del feed).
@@ -12,12 +15,13 @@
 //
 // ¿Con qué se conecta?
 // - No habla con la API ni con el store.
-// - Solo recibe un objeto Post por props.
+// - Solo recibe un objeto Post por props (e isTempId de optimistic.ts).
 
 "use client";
 
 import Link from "next/link";
 import type { Post } from "@/lib/types";
+import { isTempId } from "@/lib/optimistic";
 
 // Props: un solo objeto 'post'
 interface PostItemProps {
@@ -25,16 +29,25 @@ interface PostItemProps {
 }
 
 export default function PostItem({ post }: PostItemProps) {
+    const isPending = isTempId(post.id);
+
     return (
-        <article className="border rounded-md p-3 mb-3">
+        <article className={`border rounded-md p-3 mb-3 ${isPending ? "opacity-60" : ""}`}>
             {/* 
         Título del post con enlace a su página de detalle.
         El link apunta a /posts/<id> (debe coincidir con la ruta de posts/[id]/page.tsx)
       */}
             <h3 className="font-semibold mb-1">
-                <Link href={`/posts/${post.id}`} className="hover:underline">
-                    {post.title}
-                </Link>
+                {isPending ? (
+                    <>
+                        {post.title}{" "}
+                        <span className="text-xs font-normal text-gray-500">Pendiente...</span>
+                    </>
+                ) : (
+                    <Link href={`/posts/${post.id}`} className="hover:underline">
+                        {post.title}
+                    </Link>
+                )}
             </h3>
 
             {/* Contenido del post */}
@@ -42,7 +55,11 @@ export default function PostItem({ post }: PostItemProps) {
 
             {/* Información del autor */}
             <p className="text-xs text-gray-500">
-                Por {post.author.name} ({post.author.email})
+                Por{" "}
+                <Link href={`/users/${post.author.userId}`} className="text-blue-700 hover:underline">
+                    {post.author.name}
+                </Link>{" "}
+                ({post.author.email})
             </p>
         </article>
     );
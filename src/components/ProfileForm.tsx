@@ -0,0 +1,162 @@
+// src/components/ProfileForm.tsx
+"use client";
+
+/**
+ * FORMULARIO DE EDICIÓN DEL PERFIL PROPIO
+ *
+ * Edita name, email y city del usuario autenticado (PATCH /users/{id}).
+ *
+ * Props:
+ * - onSaved?: () => void   → se llama cuando la API responde OK (el padre
+ *   puede salir del modo edición).
+ * - onCancel?: () => void  → si se pasa, muestra un botón "Cancelar".
+ *
+ * Validación en el cliente: los tres campos son obligatorios y el email debe
+ * tener formato válido. Solo se envían los campos que cambiaron.
+ *
+ * Al guardar:
+ * - updateProfile (queries.ts) → PATCH /users/{id} y actualiza la caché
+ *   (directorio, perfil público, nombres de asistentes).
+ * - authStore.updateUser(...) → actualiza el store y localStorage, así que
+ *   NavBar, AuthUser y las demás pestañas ven el cambio al instante.
+ *
+ * No es optimista: el backend puede rechazar el email (409) y preferimos
+ * no mostrar un nombre que luego haya que deshacer.
+ */
+
+import { FormEvent, useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { updateProfile } from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import { isValidEmail } from "@/lib/validation";
+
+interface ProfileFormProps {
+    onSaved?: () => void;
+    onCancel?: () => void;
+}
+
+export default function ProfileForm({ onSaved, onCancel }: ProfileFormProps) {
+    const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
+    const updateUser = useAuthStore((state) => state.updateUser);
+
+    const [name, setName] = useState(user?.name ?? "");
+    const [email, setEmail] = useState(user?.email ?? "");
+    const [city, setCity] = useState(user?.city ?? "");
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleSubmit(e: FormEvent) {
+        e.preventDefault();
+        setError(null);
+
+        if (!token || !user) {
+            setError("No hay token de autenticación.");
+            return;
+        }
+
+        if (!name.trim() || !email.trim() || !city.trim()) {
+            setError("Nombre, email y ciudad son obligatorios.");
+            return;
+        }
+
+        if (!isValidEmail(email)) {
+            setError("El email no tiene un formato válido.");
+            return;
+        }
+
+        // Solo lo que cambió.
+        const changes: { name?: string; email?: string; city?: string } = {};
+        if (name.trim() !== user.name) changes.name = name.trim();
+        if (email.trim().toLowerCase() !== user.email.toLowerCase()) {
+            changes.email = email.trim();
+        }
+        if (city.trim() !== user.city) changes.city = city.trim();
+
+        if (Object.keys(changes).length === 0) {
+            onSaved?.();
+            return;
+        }
+
+        try {
+            setLoading(true);
+            const updated = await updateProfile(token, user.userId, changes);
+
+            updateUser(updated);
+            onSaved?.();
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    {
+                        conflict: "Ya existe un usuario con ese email.",
+                        forbidden: "Solo puedes editar tu propio perfil.",
+                    },
+                    "No se pudo actualizar el perfil."
+                )
+            );
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <div className="flex flex-col gap-1">
+                <label className="text-sm">Nombre</label>
+                <input
+                    className="border rounded px-2 py-1 text-sm"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                />
+            </div>
+
+            <div className="flex flex-col gap-1">
+                <label className="text-sm">Email</label>
+                <input
+                    type="email"
+                    className="border rounded px-2 py-1 text-sm"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                />
+            </div>
+
+            <div className="flex flex-col gap-1">
+                <label className="text-sm">Ciudad</label>
+                <input
+                    className="border rounded px-2 py-1 text-sm"
+                    value={city}
+                    onChange={(e) => setCity(e.target.value)}
+                />
+            </div>
+
+            {error && (
+                <p className="text-xs text-red-600">
+                    {error}
+                </p>
+            )}
+
+            <div className="flex gap-2 mt-1">
+                <button
+                    type="submit"
+                    disabled={loading}
+                    className="bg-blue-600 text-white text-sm px-3 py-1 rounded disabled:opacity-60"
+                >
+                    {loading ? "Guardando..." : "Guardar cambios"}
+                </button>
+
+                {onCancel && (
+                    <button
+                        type="button"
+                        disabled={loading}
+                        onClick={onCancel}
+                        className="border text-sm px-3 py-1 rounded disabled:opacity-60"
+                    >
+                        Cancelar
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+}
@@ -2,82 +2,165 @@
 "use client";
 
 /**
- * BOTÓN DE INSCRIPCIÓN A EVENTO
+ * BOTÓN DE INSCRIPCIÓN A EVENTO (UNIRSE / SALIR)
  *
  * Props:
- * - eventId: id del evento al que se quiere inscribir.
- * - isRegistered: boolean → si ya está inscrito, deshabilita el botón.
+ * - eventId: id del evento.
+ * - registrations: inscripciones conocidas (del evento o del usuario). Aquí
+ *   buscamos la del usuario actual para saber su regId.
+ * - capacity: cupos del evento (opcional). Si se pasa, registrations deben
+ *   ser TODAS las del evento para saber si está lleno y la posición en espera.
  * - onRegistered: callback cuando la inscripción es exitosa.
+ * - onUnregistered: callback con el regId cuando se cancela la inscripción.
+ *
+ * Si el usuario no está inscrito → "Unirme al evento" (POST /registrations).
+ * Si ya está inscrito            → "Salir del evento" (DELETE /registrations/{regId}).
+ * Si el evento está lleno        → "Unirme a la lista de espera" (mismo POST; el
+ *                                  orden por registeredAt decide quién entra, ver capacity.ts).
+ *
+ * Unirse es optimista (createRegistration): la inscripción aparece al instante
+ * con un id temporal y el botón queda "pendiente" hasta que responde el
+ * servidor. Si falla, se deshace y el error sale como aviso (toast).
  *
  * Conexiones:
  * - useAuthStore: token y user.
- * - createRegistrationApi: POST /registrations
+ * - createRegistration: POST /registrations (queries.ts, actualiza la caché)
+ * - deleteRegistration: DELETE /registrations/{regId} (queries.ts)
  */
 
 import { useState } from "react";
 import { useAuthStore } from "@/store/authStore";
-import { createRegistrationApi } from "@/lib/api";
+import { createRegistration, deleteRegistration } from "@/lib/queries";
+import { getErrorMessage } from "@/lib/errors";
+import { getWaitlistPosition } from "@/lib/capacity";
+import { isTempId } from "@/lib/optimistic";
 import type { Registration } from "@/lib/types";
 
 interface RegisterButtonProps {
     eventId: string;
-    isRegistered: boolean;
+    registrations: Registration[];
+    capacity?: number;
     onRegistered?: (reg: Registration) => void;
+    onUnregistered?: (regId: string) => void;
 }
 
 export default function RegisterButton({
     eventId,
-    isRegistered,
+    registrations,
+    capacity,
     onRegistered,
+    onUnregistered,
 }: RegisterButtonProps) {
-    const { token, user } = useAuthStore((state) => ({
-        token: state.token,
-        user: state.user,
-    }));
+    const token = useAuthStore((state) => state.token);
+    const user = useAuthStore((state) => state.user);
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    async function handleClick() {
-        setError(null);
+    // Inscripción del usuario actual a ESTE evento (si existe).
+    const myRegistration = user
+        ? registrations.find(
+              (reg) => reg.eventId === eventId && reg.userId === user.userId
+          )
+        : undefined;
+    const isRegistered = !!myRegistration;
+    // Inscripción optimista que el servidor todavía no confirmó.
+    const isPending = !!myRegistration && isTempId(myRegistration.regId);
+
+    // Cupos: solo aplican si el padre pasó capacity.
+    const isFull = capacity !== undefined && registrations.length >= capacity;
+    const waitlistPosition =
+        user && isRegistered
+            ? getWaitlistPosition(registrations, capacity, user.userId)
+            : null;
 
+    async function handleRegister() {
         if (!token || !user) {
             setError("Debes iniciar sesión para inscribirte.");
             return;
         }
 
-        if (isRegistered) {
-            setError("Ya estás inscrito en este evento.");
-            return;
-        }
-
         try {
-            setLoading(true);
-
-            const newReg = await createRegistrationApi(token, {
+            const newReg = await createRegistration(token, {
                 eventId,
                 userId: user.userId,
             });
 
             onRegistered?.(newReg);
         } catch {
-            setError("No se pudo registrar al evento.");
+            // Ya se deshizo y se avisó con un toast (optimistic.ts).
+        }
+    }
+
+    async function handleUnregister(registration: Registration) {
+        if (!token) {
+            setError("Debes iniciar sesión para cancelar la inscripción.");
+            return;
+        }
+
+        try {
+            setLoading(true);
+            await deleteRegistration(token, registration);
+            onUnregistered?.(registration.regId);
+        } catch (err) {
+            setError(
+                getErrorMessage(
+                    err,
+                    {
+                        forbidden: "No puedes cancelar una inscripción que no es tuya.",
+                        // Si ya no existe, para el usuario el resultado es el mismo.
+                        not_found: "La inscripción ya no existe.",
+                    },
+                    "No se pudo cancelar la inscripción."
+                )
+            );
         } finally {
             setLoading(false);
         }
     }
 
+    function handleClick() {
+        setError(null);
+
+        if (myRegistration) {
+            handleUnregister(myRegistration);
+        } else {
+            handleRegister();
+        }
+    }
+
+    let label: string;
+    if (isPending) {
+        label = "Inscribiendo...";
+    } else if (isRegistered) {
+        label = loading
+            ? "Saliendo..."
+            : waitlistPosition !== null
+                ? "Salir de la lista de espera"
+                : "Salir del evento";
+    } else if (isFull) {
+        label = "Unirme a la lista de espera";
+    } else {
+        label = "Unirme al evento";
+    }
+
     return (
         <section className="mt-4">
             <button
                 type="button"
-                disabled={loading || isRegistered}
+                disabled={loading || isPending}
                 onClick={handleClick}
-                className="bg-green-600 text-white text-sm px-4 py-2 rounded disabled:opacity-60"
+                className={`${isRegistered ? "bg-gray-600" : "bg-green-600"} text-white text-sm px-4 py-2 rounded disabled:opacity-60`}
             >
-                {isRegistered ? "Ya estás inscrito" : loading ? "Inscribiendo..." : "Unirme al evento"}
+                {label}
             </button>
 
+            {waitlistPosition !== null && !isPending && (
+                <p className="text-xs text-gray-600 mt-1">
+                    Estás en la lista de espera (posición {waitlistPosition}).
+                </p>
+            )}
+
             {error && (
                 <p className="text-xs text-red-600 mt-1">
                     {error}
@@ -0,0 +1,119 @@
+// src/components/SessionWatcher.tsx
+"use client";
+
+/**
+ * VIGILANTE DE SESIÓN
+ *
+ * No renderiza nada. Se monta una sola vez en el layout (general) y:
+ * - Hidrata authStore desde localStorage (las páginas ya no lo hacen).
+ *   Si estamos en una ruta protegida y no hay sesión en el cliente (por
+ *   ejemplo, se borró localStorage pero quedó la cookie), cierra también
+ *   la sesión del servidor y manda a login.
+ * - Registra en api.ts el handler de 401: cualquier petición autenticada que
+ *   responda 401 hace logout() y manda a /login?next=<ruta actual>.
+ * - Si el token es un JWT con exp, programa un logout automático un poco
+ *   antes de que expire (EXPIRY_MARGIN_MS).
+ * - Escucha el evento "storage" para enterarse de login, logout o cambios de
+ *   perfil hechos en OTRAS pestañas (syncFromStorage). Si otra pestaña cerró
+ *   la sesión y esta muestra una ruta protegida, manda a login.
+ *
+ * Conexiones:
+ * - useAuthStore: token, hydrateFromStorage(), syncFromStorage() y logout().
+ * - setUnauthorizedHandler (api.ts).
+ * - getTokenExpiration / buildLoginUrl / isProtectedPath (session.ts).
+ */
+
+import { useCallback, useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+import { useAuthStore } from "@/store/authStore";
+import { setUnauthorizedHandler } from "@/lib/api";
+import {
+    buildLoginUrl,
+    endServerSession,
+    getTokenExpiration,
+    isProtectedPath,
+    EXPIRY_MARGIN_MS,
+} from "@/lib/session";
+
+// setTimeout no acepta más de ~24.8 días (2^31 - 1 ms).
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+export default function SessionWatcher() {
+    const router = useRouter();
+
+    const token = useAuthStore((state) => state.token);
+    const logout = useAuthStore((state) => state.logout);
+    const hydrateFromStorage = useAuthStore((state) => state.hydrateFromStorage);
+    const syncFromStorage = useAuthStore((state) => state.syncFromStorage);
+
+    // Cierra la sesión y manda a login recordando la ruta actual.
+    const expireSession = useCallback(() => {
+        // Si ya se cerró la sesión (varias peticiones fallando a la vez),
+        // no repetimos el logout ni la redirección.
+        if (!useAuthStore.getState().token) return;
+
+        logout();
+
+        const currentPath = window.location.pathname + window.location.search;
+        router.replace(buildLoginUrl(currentPath));
+    }, [logout, router]);
+
+    // 0) Hidratar la sesión del cliente una sola vez
+    useEffect(() => {
+        hydrateFromStorage();
+
+        // hydrateFromStorage es síncrono: si después no hay token, el cliente
+        // no tiene sesión aunque el middleware nos haya dejado pasar.
+        const pathname = window.location.pathname;
+        if (!useAuthStore.getState().token && isProtectedPath(pathname)) {
+            void endServerSession();
+            router.replace(buildLoginUrl(pathname + window.location.search));
+        }
+    }, [hydrateFromStorage, router]);
+
+    // 1) Handler global de 401
+    useEffect(() => {
+        setUnauthorizedHandler(expireSession);
+        return () => setUnauthorizedHandler(null);
+    }, [expireSession]);
+
+    // 2) Logout proactivo antes de que el JWT expire
+    useEffect(() => {
+        if (!token) return;
+
+        const expiresAt = getTokenExpiration(token);
+        if (expiresAt === null) return; // token opaco: dependemos del 401
+
+        const delay = Math.min(expiresAt - Date.now() - EXPIRY_MARGIN_MS, MAX_TIMEOUT_MS);
+
+        if (delay <= 0) {
+            expireSession();
+            return;
+        }
+
+        const timer = window.setTimeout(expireSession, delay);
+        return () => window.clearTimeout(timer);
+    }, [token, expireSession]);
+
+    // 3) Sincronización con otras pestañas
+    useEffect(() => {
+        function handleStorage(event: StorageEvent) {
+            // key === null → otra pestaña hizo localStorage.clear().
+            if (event.key !== null && event.key !== "token" && event.key !== "user") return;
+
+            const hadSession = !!useAuthStore.getState().token;
+            syncFromStorage();
+
+            const pathname = window.location.pathname;
+            if (hadSession && !useAuthStore.getState().token && isProtectedPath(pathname)) {
+                router.replace(buildLoginUrl(pathname + window.location.search));
+            }
+        }
+
+        window.addEventListener("storage", handleStorage);
+        return () => window.removeEventListener("storage", handleStorage);
+    }, [syncFromStorage, router]);
+
+    return null;
+}
@@ -0,0 +1,48 @@
+// src/components/Toaster.tsx
+"use client";
+
+/**
+ * AVISOS FLOTANTES (TOASTS)
+ *
+ * Se monta una sola vez en el layout (general) y pinta, abajo a la derecha,
+ * los avisos de toastStore. Cada aviso se quita solo o con el botón ×.
+ *
+ * Conexiones:
+ * - useToastStore: toasts y dismissToast.
+ */
+
+import { useToastStore, type ToastType } from "@/store/toastStore";
+
+const TOAST_STYLES: Record<ToastType, string> = {
+    error: "bg-red-600 text-white",
+    success: "bg-green-600 text-white",
+    info: "bg-gray-800 text-white",
+};
+
+export default function Toaster() {
+    const toasts = useToastStore((state) => state.toasts);
+    const dismissToast = useToastStore((state) => state.dismissToast);
+
+    if (!toasts.length) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 max-w-sm" role="status">
+            {toasts.map((toast) => (
+                <div
+                    key={toast.id}
+                    className={`${TOAST_STYLES[toast.type]} text-sm rounded shadow px-3 py-2 flex items-start gap-2`}
+                >
+                    <p className="flex-1">{toast.message}</p>
+                    <button
+                        type="button"
+                        onClick={() => dismissToast(toast.id)}
+                        className="leading-none opacity-80 hover:opacity-100"
+                        aria-label="Cerrar aviso"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,232 @@
+// src/components/UserCsvImport.tsx
+"use client";
+
+/**
+ * ALTA MASIVA DE USUARIOS DESDE CSV (modo "Desde CSV" de /users/new)
+ *
+ * Flujo:
+ * 1. El admin elige un CSV (name, email, city, password; role opcional).
+ * 2. Se lee y valida en el cliente (userImport.ts) y se muestra una vista
+ *    previa con los errores de cada fila (campos vacíos, email repetido o
+ *    ya registrado, ...). Las filas con errores no se envían.
+ * 3. "Crear usuarios" llama a createUsers (queries.ts): POST /users por
+ *    fila, con concurrencia limitada y progreso "k / n".
+ * 4. Informe final: cuántos se crearon y por qué falló cada uno, con un
+ *    CSV descargable de las filas que no se crearon (para corregir y
+ *    volver a subir).
+ *
+ * Conexiones:
+ * - useUsers (queries.ts): emails ya registrados, para detectar duplicados.
+ * - parseUserCsv / failuresToCsv (userImport.ts), downloadFile (csv.ts).
+ */
+
+import { ChangeEvent, useState } from "react";
+
+import { useAuthStore } from "@/store/authStore";
+import { createUsers, useUsers } from "@/lib/queries";
+import { downloadFile } from "@/lib/csv";
+import { getErrorMessage } from "@/lib/errors";
+import { ROLE_LABELS } from "@/lib/permissions";
+import {
+    failuresToCsv,
+    parseUserCsv,
+    REQUIRED_COLUMNS,
+    type UserImportData,
+    type UserImportRow,
+} from "@/lib/userImport";
+
+// Fila que no se creó (por validación o por la API) y su motivo.
+interface ImportFailure {
+    line: number;
+    data: UserImportData;
+    error: string;
+}
+
+export default function UserCsvImport() {
+    const token = useAuthStore((state) => state.token);
+    const { data: users } = useUsers();
+
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [rows, setRows] = useState<UserImportRow[]>([]);
+    const [parseError, setParseError] = useState<string | null>(null);
+
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [report, setReport] = useState<{ created: number; failures: ImportFailure[] } | null>(
+        null
+    );
+
+    const validRows = rows.filter((row) => row.errors.length === 0);
+    const invalidRows = rows.filter((row) => row.errors.length > 0);
+    const importing = progress !== null && report === null;
+
+    async function handleFile(e: ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0];
+        setRows([]);
+        setParseError(null);
+        setProgress(null);
+        setReport(null);
+        setFileName(file?.name ?? null);
+        if (!file) return;
+
+        const existingEmails = new Set((users ?? []).map((user) => user.email.toLowerCase()));
+        const parsed = parseUserCsv(await file.text(), existingEmails);
+
+        if ("error" in parsed) setParseError(parsed.error);
+        else setRows(parsed.rows);
+    }
+
+    async function handleImport() {
+        if (!token || validRows.length === 0) return;
+
+        setProgress({ done: 0, total: validRows.length });
+        setReport(null);
+
+        const lineOf = new Map(validRows.map((row) => [row.data, row.line]));
+        const result = await createUsers(
+            token,
+            validRows.map((row) => row.data),
+            { onSettled: (done, total) => setProgress({ done, total }) }
+        );
+
+        const failures: ImportFailure[] = [
+            ...invalidRows.map((row) => ({
+                line: row.line,
+                data: row.data,
+                error: row.errors.join(" "),
+            })),
+            ...result.failed.map(({ item, error }) => ({
+                line: lineOf.get(item) ?? 0,
+                data: item,
+                error: getErrorMessage(
+                    error,
+                    {
+                        conflict: "Ya existe un usuario con ese email.",
+                        forbidden: "Solo un administrador puede crear usuarios.",
+                    },
+                    "No se pudo crear el usuario."
+                ),
+            })),
+        ].sort((a, b) => a.line - b.line);
+
+        setReport({ created: result.succeeded.length, failures });
+    }
+
+    function handleDownloadFailures() {
+        if (!report) return;
+        downloadFile(
+            "usuarios-no-creados.csv",
+            failuresToCsv(report.failures),
+            "text/csv;charset=utf-8"
+        );
+    }
+
+    return (
+        <section className="bg-white p-4 border rounded-md flex flex-col gap-3">
+            <p className="text-xs text-gray-600">
+                El CSV debe tener encabezado con las columnas{" "}
+                <code>{REQUIRED_COLUMNS.join(",")}</code> (y opcionalmente <code>role</code>:
+                admin, organizer o attendee).
+            </p>
+
+            <input
+                type="file"
+                accept=".csv,text/csv"
+                disabled={importing}
+                onChange={handleFile}
+                className="text-sm"
+            />
+
+            {parseError && <p className="text-xs text-red-600">{parseError}</p>}
+
+            {rows.length > 0 && (
+                <>
+                    <p className="text-xs text-gray-700">
+                        {fileName}: {validRows.length} fila(s) válida(s)
+                        {invalidRows.length > 0 &&
+                            `, ${invalidRows.length} con errores (no se crearán)`}
+                        .
+                    </p>
+
+                    <div className="max-h-80 overflow-auto border rounded">
+                        <table className="w-full text-xs">
+                            <thead className="bg-gray-50 sticky top-0">
+                                <tr className="text-left border-b">
+                                    <th className="p-1">Línea</th>
+                                    <th className="p-1">Nombre</th>
+                                    <th className="p-1">Email</th>
+                                    <th className="p-1">Ciudad</th>
+                                    <th className="p-1">Rol</th>
+                                    <th className="p-1">Estado</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((row) => (
+                                    <tr key={row.line} className="border-b last:border-0">
+                                        <td className="p-1">{row.line}</td>
+                                        <td className="p-1">{row.data.name}</td>
+                                        <td className="p-1">{row.data.email}</td>
+                                        <td className="p-1">{row.data.city}</td>
+                                        <td className="p-1">{ROLE_LABELS[row.data.role]}</td>
+                                        <td className="p-1">
+                                            {row.errors.length ? (
+                                                <span className="text-red-600">
+                                                    {row.errors.join(" ")}
+                                                </span>
+                                            ) : (
+                                                <span className="text-green-700">OK</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {!report && (
+                        <button
+                            type="button"
+                            disabled={importing || validRows.length === 0}
+                            onClick={handleImport}
+                            className="bg-blue-600 text-white text-sm px-3 py-2 rounded disabled:opacity-60"
+                        >
+                            {importing
+                                ? `Creando ${progress.done} / ${progress.total}...`
+                                : `Crear ${validRows.length} usuario(s)`}
+                        </button>
+                    )}
+                </>
+            )}
+
+            {report && (
+                <div className="border-t pt-3 flex flex-col gap-2">
+                    <p className="text-sm text-green-700">
+                        {report.created} usuario(s) creado(s).
+                    </p>
+
+                    {report.failures.length > 0 && (
+                        <>
+                            <p className="text-sm text-red-600">
+                                {report.failures.length} fila(s) no se crearon:
+                            </p>
+                            <ul className="text-xs text-gray-700 list-disc pl-5">
+                                {report.failures.map((failure) => (
+                                    <li key={failure.line}>
+                                        Línea {failure.line} ({failure.data.email || "sin email"}):{" "}
+                                        {failure.error}
+                                    </li>
+                                ))}
+                            </ul>
+                            <button
+                                type="button"
+                                onClick={handleDownloadFailures}
+                                className="self-start border text-xs px-2 py-1 rounded hover:bg-gray-50"
+                            >
+                                Descargar CSV de filas no creadas
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </section>
+    );
+}
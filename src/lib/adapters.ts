@@ -0,0 +1,63 @@
+// src/lib/adapters.ts
+//
+// ADAPTADOR DE NOMBRES DE CAMPOS BACKEND ↔ APP.
+//
+// El README lo advierte: el profe puede cambiar `eventId` → `id` o
+// `createdBy` → `ownerId`. En lugar de tocar types.ts y cada componente,
+// se declara el renombre AQUÍ y la app sigue usando sus nombres de siempre.
+//
+// Formato: { campoEnLaApp: "campoEnElBackend" }
+//
+// Ejemplo, si el backend manda { id, ownerId } para eventos:
+//
+//   event: { eventId: "id", createdBy: "ownerId" },
+//
+// - fromApi: renombra las respuestas del backend antes de validarlas
+//   (schemas.ts lo aplica en cada entidad, también anidada).
+// - toApi:   renombra los bodies que mandamos (POST / PUT) en api.ts.
+//
+// Los query params (?eventId=..., filtros de /events) NO pasan por aquí:
+// si cambian, se ajustan en la función correspondiente de api.ts.
+
+export type EntityName = "user" | "event" | "registration" | "post" | "comment" | "author";
+
+export const FIELD_MAPPINGS: Record<EntityName, Record<string, string>> = {
+    user: {},
+    event: {},
+    registration: {},
+    post: {},
+    comment: {},
+    author: {},
+};
+
+// Respuesta del backend → nombres de la app.
+// Si value no es un objeto lo devolvemos igual (la validación lo reporta).
+export function fromApi(entity: EntityName, value: unknown): unknown {
+    const mapping = FIELD_MAPPINGS[entity];
+    if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+
+    for (const [appField, apiField] of Object.entries(mapping)) {
+        if (apiField in source) {
+            result[appField] = source[apiField];
+            delete result[apiField];
+        }
+    }
+    return result;
+}
+
+// Body de la app → nombres del backend.
+export function toApi(entity: EntityName, data: object): Record<string, unknown> {
+    const mapping = FIELD_MAPPINGS[entity];
+    const result: Record<string, unknown> = { ...data };
+
+    for (const [appField, apiField] of Object.entries(mapping)) {
+        if (appField in result) {
+            result[apiField] = result[appField];
+            delete result[appField];
+        }
+    }
+    return result;
+}
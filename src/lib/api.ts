@@ -5,21 +5,62 @@
 // Responsabilidades:
 // - Centralizar TODAS las llamadas HTTP al backend.
 // - Agregar el token de autenticación cuando sea necesario.
-// - Devolver datos tipados (User, Event, Registration).
+// - Devolver datos tipados (User, Event, Registration, Post, Comment) Y
+//   validados en tiempo de ejecución contra su esquema (schemas.ts).
+// - Traducir nombres de campos backend ↔ app (adapters.ts).
+// - Timeout por intento, reintentos con backoff para GET y cancelación con
+//   AbortSignal (ApiCallOptions).
 //
 // ¿Quién usa este archivo?
 // - LoginPage                → loginApi
 // - Página para crear usuarios → createUserApi
-// - EventsPage               → getEventsApi, createEventApi
+// - EventsPage               → getEventsApi (filtros + paginación), createEventApi
 // - EventDetailPage          → getEventByIdApi, getRegistrationsByEventApi,
-//                              createRegistrationApi
-// - ProfilePage              → getRegistrationsByUserApi, getEventsApi
+//                              createRegistrationApi, deleteRegistrationApi
+// - ProfilePage              → getRegistrationsByUserApi, getEventsApi,
+//                              deleteRegistrationApi
+//                              (ProfileForm → updateUserApi vía queries.ts,
+//                               ChangePasswordForm → changePasswordApi)
+// - UsersPage / UserDetailPage → getUsersApi, getUserByIdApi (vía queries.ts)
+// - AdminPage                → getUsersApi, getEventsApi, getRegistrationsApi,
+//                              deleteUserApi, deleteEventApi, reassignEventApi,
+//                              deleteRegistrationApi (vía queries.ts)
+// - api/calendar (servidor)  → getMeApi, getRegistrationsByUserApi, getEventsApi
+//                              con baseUrl: resolveApiUrl(origin)
+// - FeedPage                 → getPostsApi (NewPostForm → createPostApi)
+// - PostDetailPage           → getPostByIdApi, getCommentsByPostApi
+//                              (NewCommentForm → createCommentApi)
 // - Cualquier componente que necesite CRUD de eventos o usuarios.
 //
 // Si el profe cambia la URL base o los endpoints (/events, /registrations, etc.),
-// este es el archivo que ajustas, NO toda la app.
+// este es el archivo que ajustas, NO toda la app. Si solo renombra campos
+// (ej. eventId → id), el ajuste va en adapters.ts.
 
-import { User, Event, Registration } from "./types";
+import {
+    User,
+    Event,
+    EventsQuery,
+    Paginated,
+    Registration,
+    Post,
+    Comment,
+    UserRole,
+} from "./types";
+import { ApiError, ResponseValidationError } from "./errors";
+import { toApi } from "./adapters";
+import { applyEventsQuery } from "./eventsQuery";
+import {
+    Schema,
+    SchemaError,
+    array,
+    commentSchema,
+    eventSchema,
+    eventsResponseSchema,
+    loginResponseSchema,
+    postSchema,
+    registrationSchema,
+    userSchema,
+} from "./schemas";
 
 // URL base de la API.
 // En el parcial te darán algo tipo "http://192.168.x.x:8000".
@@ -29,7 +70,102 @@ import { User, Event, Registration } from "./types";
 //
 // y aquí usar esa variable. Si no existe, usamos http://localhost:8000 como
 // valor por defecto de desarrollo.
-const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000";
+//
+// Sin el backend del profe, se puede usar el backend MOCK incluido en el repo
+// (route handlers en src/app/api/mock, datos en memoria) poniendo:
+//
+//   NEXT_PUBLIC_USE_MOCK_API=true
+//
+// Mismo contrato y mismas reglas de createdBy, así que el resto de la app no
+// se entera del cambio.
+const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+const API_URL = USE_MOCK_API
+    ? "/api/mock"
+    : process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000";
+
+// API_URL absoluta para llamar a la API desde el servidor (route handlers),
+// donde el "/api/mock" relativo no sirve: se completa con el origen de la
+// petición que se está atendiendo.
+export function resolveApiUrl(origin: string): string {
+    return API_URL.startsWith("/") ? `${origin}${API_URL}` : API_URL;
+}
+
+/////////////////////////////
+// Sesión expirada (401)
+/////////////////////////////
+
+// Función que se ejecuta cuando una petición AUTENTICADA responde 401.
+// api.ts no conoce el store ni el router: SessionWatcher registra aquí
+// el handler que hace logout() y redirige a /login?next=...
+type UnauthorizedHandler = (error: ApiError) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+// Registra (o quita, con null) el handler global de 401.
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null): void {
+    unauthorizedHandler = handler;
+}
+
+/////////////////////////////
+// Timeouts, reintentos y cancelación
+/////////////////////////////
+
+// En la red del salón las peticiones a veces se quedan colgadas o fallan
+// un momento. Por eso cada intento tiene un timeout y los GET (que se
+// pueden repetir sin riesgo) se reintentan si hubo error de red o 5xx.
+
+// Tiempo máximo de CADA intento.
+export const DEFAULT_TIMEOUT_MS = 10_000;
+// Reintentos de un GET además del primer intento.
+export const DEFAULT_GET_RETRIES = 2;
+// Espera entre reintentos: backoff exponencial con jitter.
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 3_000;
+
+// Opciones por llamada que aceptan todas las funciones exportadas.
+// Ej: getEventByIdApi(token, id, { signal: controller.signal, timeoutMs: 5000 })
+export interface ApiCallOptions {
+    // Para cancelar la petición (ej. la página se desmontó). Una petición
+    // cancelada rechaza con signal.reason (un AbortError) y no se reintenta.
+    signal?: AbortSignal;
+    // Timeout de cada intento en ms (por defecto DEFAULT_TIMEOUT_MS).
+    timeoutMs?: number;
+    // Reintentos; solo aplican a GET (por defecto DEFAULT_GET_RETRIES).
+    retries?: number;
+    // URL base en vez de API_URL (ej. resolveApiUrl(origin) en el servidor).
+    baseUrl?: string;
+}
+
+// Espera "full jitter": un valor al azar entre 0 y el backoff del intento,
+// para que varios clientes no reintenten todos a la vez.
+function retryDelay(attempt: number): number {
+    return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+// Vale la pena reintentar si no hubo respuesta (red / timeout) o fue 5xx.
+function isRetryable(err: unknown): boolean {
+    return err instanceof ApiError && (err.category === "network" || err.category === "server");
+}
+
+// setTimeout que se corta si la señal se cancela.
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        function onAbort() {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
 
 /////////////////////////////
 // Helper genérico apiFetch
@@ -40,24 +176,66 @@ const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000";
 //
 // Parámetros:
 // - path: ruta relativa, por ejemplo "/login" o "/events/E001".
-// - options: método, body, headers extra, etc.
+// - options: método, body, headers extra, etc. + ApiCallOptions
+//   (signal, timeoutMs, retries).
 // - token: string con el token (si hay), o null/undefined.
+// - schema: esquema con el que se valida la respuesta (schemas.ts). Todas
+//   las funciones que devuelven datos lo pasan; solo los DELETE y el cambio
+//   de contraseña (204 sin body) lo omiten.
 //
 // Esta función:
 // - construye los headers,
 // - añade Authorization si hay token,
-// - hace la petición con fetch,
+// - hace la petición con fetch (con timeout y, si es GET, reintentos),
 // - valida el status,
-// - y devuelve res.json() tipado como T.
+// - y devuelve res.json() validado con schema.
+//
+// Si algo falla lanza un ApiError (ver errors.ts) con status, endpoint,
+// método, body de error parseado y categoría. Los errores de red (servidor
+// caído, sin conexión, timeout) llegan como ApiError con status 0 /
+// categoría "network", después de agotar los reintentos.
+// Si la respuesta no cumple el esquema lanza un ResponseValidationError que
+// nombra el campo que falló. Si options.signal se cancela, rechaza con el
+// AbortError de la señal (no es un error que haya que mostrar).
 async function apiFetch<T>(
     path: string,
-    options: RequestInit = {},
-    token?: string | null
+    options: RequestInit & ApiCallOptions = {},
+    token?: string | null,
+    schema?: Schema<T>
+): Promise<T> {
+    const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries, baseUrl = API_URL, ...init } = options;
+
+    const method = (init.method ?? "GET").toUpperCase();
+    const maxRetries = method === "GET" ? retries ?? DEFAULT_GET_RETRIES : 0;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fetchOnce(baseUrl, path, { ...init, method }, token, schema, timeoutMs, signal);
+        } catch (err) {
+            if (attempt >= maxRetries || !isRetryable(err) || signal?.aborted) {
+                throw err;
+            }
+            await wait(retryDelay(attempt), signal);
+        }
+    }
+}
+
+// Un solo intento de apiFetch.
+async function fetchOnce<T>(
+    baseUrl: string,
+    path: string,
+    init: RequestInit & { method: string },
+    token: string | null | undefined,
+    schema: Schema<T> | undefined,
+    timeoutMs: number,
+    signal: AbortSignal | undefined
 ): Promise<T> {
+    const { method } = init;
+
     // Objeto plano de headers para poder indexar "Authorization" sin drama.
     const headers: Record<string, string> = {
         "Content-Type": "application/json",
-        ...(options.headers as Record<string, string> | undefined),
+        ...(init.headers as Record<string, string> | undefined),
     };
 
     // Si hay token, lo agregamos al header Authorization.
@@ -65,18 +243,127 @@ async function apiFetch<T>(
         headers.Authorization = `Bearer ${token}`;
     }
 
-    const res = await fetch(`${API_URL}${path}`, {
-        ...options,
-        headers,
-    });
+    if (signal?.aborted) throw signal.reason;
+
+    // Un controller propio por intento: lo cancela el timeout o la señal
+    // de quien llamó.
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Error de "no hubo respuesta": cancelación de quien llamó, timeout o red.
+    const noResponseError = (err: unknown): unknown => {
+        if (signal?.aborted) return signal.reason;
+        return new ApiError({
+            status: 0,
+            endpoint: path,
+            method,
+            timedOut,
+            message: timedOut
+                ? `Tiempo de espera agotado (${timeoutMs} ms) en ${method} ${path}`
+                : err instanceof Error
+                    ? err.message
+                    : undefined,
+        });
+    };
+
+    try {
+        let res: Response;
+        try {
+            res = await fetch(`${baseUrl}${path}`, {
+                ...init,
+                headers,
+                signal: controller.signal,
+            });
+        } catch (err) {
+            // fetch solo lanza si no hubo respuesta HTTP (red, CORS, DNS,
+            // timeout o cancelación).
+            throw noResponseError(err);
+        }
+
+        if (!res.ok) {
+            const error = new ApiError({
+                status: res.status,
+                endpoint: path,
+                method,
+                body: await parseErrorBody(res),
+            });
+
+            // Un 401 con token significa que la sesión ya no sirve (expiró o fue
+            // revocada). Sin token (ej. /login con credenciales malas) no aplica.
+            if (res.status === 401 && token) {
+                unauthorizedHandler?.(error);
+            }
+
+            throw error;
+        }
+
+        // 204 No Content (ej. DELETE): no hay cuerpo que parsear.
+        if (res.status === 204) {
+            return undefined as T;
+        }
+
+        let data: unknown;
+        try {
+            data = await res.json();
+        } catch (err) {
+            // El cuerpo también puede cortarse por timeout / cancelación.
+            if (controller.signal.aborted) throw noResponseError(err);
+            throw err;
+        }
+        if (!schema) return data as T;
+
+        // Validamos el cuerpo: si el backend cambió la forma de la respuesta
+        // preferimos un error claro aquí a un undefined silencioso en la UI.
+        try {
+            return schema.parse(data, "");
+        } catch (err) {
+            if (err instanceof SchemaError) {
+                throw new ResponseValidationError({
+                    endpoint: path,
+                    method,
+                    field: err.path,
+                    expected: err.expected,
+                    received: err.received,
+                });
+            }
+            throw err;
+        }
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
 
-    if (!res.ok) {
-        const text = await res.text();
-        throw new Error(`Error API ${res.status}: ${text}`);
+// Lee el body de una respuesta de error.
+// Intenta JSON; si no lo es, devuelve el texto plano (o null si está vacío).
+async function parseErrorBody(res: Response): Promise<unknown> {
+    const text = await res.text().catch(() => "");
+    if (!text) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
     }
+}
 
-    // Devolvemos el cuerpo parseado como JSON tipado T.
-    return res.json();
+// Convierte un objeto de filtros en "?a=1&b=2".
+// Omite valores undefined, null y strings vacíos. Devuelve "" si no queda nada.
+function buildQueryString(
+    params: Record<string, string | number | undefined | null>
+): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === null || value === "") continue;
+        search.set(key, String(value));
+    }
+    const qs = search.toString();
+    return qs ? `?${qs}` : "";
 }
 
 ///////////////////////
@@ -92,19 +379,26 @@ async function apiFetch<T>(
 // de token), ajustas SOLO esta función.
 export async function loginApi(
     email: string,
-    password: string
+    password: string,
+    options: ApiCallOptions = {}
 ): Promise<{ token: string; user: User }> {
-    return apiFetch<{ token: string; user: User }>("/login", {
-        method: "POST",
-        body: JSON.stringify({ email, password }),
-    });
+    return apiFetch(
+        "/login",
+        {
+            ...options,
+            method: "POST",
+            body: JSON.stringify(toApi("user", { email, password })),
+        },
+        null,
+        loginResponseSchema
+    );
 }
 
 // (Opcional) OBTENER USUARIO ACTUAL (si la API lo soporta)
 // Hace GET /users/{id} o /me según cómo esté implementado el backend.
 // Aquí lo dejamos como /me por si el profe lo implementa así.
-export async function getMeApi(token: string): Promise<User> {
-    return apiFetch<User>("/me", {}, token);
+export async function getMeApi(token: string, options: ApiCallOptions = {}): Promise<User> {
+    return apiFetch("/me", options, token, userSchema);
 }
 
 ///////////////////////
@@ -113,94 +407,223 @@ export async function getMeApi(token: string): Promise<User> {
 
 // Crear nuevo usuario (POST /users)
 // Requisito: "Un usuario debe ser creado por otro usuario autenticado."
+// Con roles, solo un admin puede hacerlo (403 si no).
 export async function createUserApi(
     token: string,
-    data: { name: string; email: string; city: string; password: string }
+    data: { name: string; email: string; city: string; password: string; role?: UserRole },
+    options: ApiCallOptions = {}
 ): Promise<User> {
-    return apiFetch<User>(
+    return apiFetch(
         "/users",
         {
+            ...options,
             method: "POST",
-            body: JSON.stringify(data),
+            body: JSON.stringify(toApi("user", data)),
         },
-        token
+        token,
+        userSchema
     );
 }
 
 // Listar usuarios (GET /users)
-export async function getUsersApi(token: string): Promise<User[]> {
-    return apiFetch<User[]>("/users", {}, token);
+export async function getUsersApi(token: string, options: ApiCallOptions = {}): Promise<User[]> {
+    return apiFetch("/users", options, token, array(userSchema));
+}
+
+// Eliminar un usuario (DELETE /users/{id})
+// Solo admin. El backend responde 409 si es tu propia cuenta o si el
+// usuario todavía tiene eventos creados (hay que reasignarlos antes).
+export async function deleteUserApi(
+    token: string,
+    userId: string,
+    options: ApiCallOptions = {}
+): Promise<void> {
+    await apiFetch<unknown>(
+        `/users/${userId}`,
+        {
+            ...options,
+            method: "DELETE",
+        },
+        token
+    );
 }
 
 // Obtener detalles de un usuario por id (GET /users/{id})
 export async function getUserByIdApi(
     token: string,
-    userId: string
+    userId: string,
+    options: ApiCallOptions = {}
 ): Promise<User> {
-    return apiFetch<User>(`/users/${userId}`, {}, token);
+    return apiFetch(`/users/${userId}`, options, token, userSchema);
+}
+
+// Actualizar datos de un usuario (PATCH /users/{id})
+// Solo se envían los campos que cambian. El backend solo deja editar el
+// propio perfil (o cualquiera, si eres admin; 403 si no) y responde 409 si
+// el email ya está en uso.
+export async function updateUserApi(
+    token: string,
+    userId: string,
+    data: Partial<Pick<User, "name" | "email" | "city">>,
+    options: ApiCallOptions = {}
+): Promise<User> {
+    return apiFetch(
+        `/users/${userId}`,
+        {
+            ...options,
+            method: "PATCH",
+            body: JSON.stringify(toApi("user", data)),
+        },
+        token,
+        userSchema
+    );
+}
+
+// Cambiar contraseña (PUT /users/{id}/password)
+// Exige la contraseña actual: si no coincide el backend responde 403.
+// Responde 204 sin body.
+export async function changePasswordApi(
+    token: string,
+    userId: string,
+    data: { currentPassword: string; newPassword: string },
+    options: ApiCallOptions = {}
+): Promise<void> {
+    await apiFetch<unknown>(
+        `/users/${userId}/password`,
+        {
+            ...options,
+            method: "PUT",
+            body: JSON.stringify(data),
+        },
+        token
+    );
 }
 
 ///////////////////////
 // EVENTS (CRUD)
 ///////////////////////
 
-// Obtener lista de eventos (GET /events)
-export async function getEventsApi(token: string): Promise<Event[]> {
-    return apiFetch<Event[]>("/events", {}, token);
+// Obtener lista de eventos (GET /events?...)
+//
+// query: filtros, orden y paginación (ver EventsQuery en types.ts). Si el
+// backend los soporta, todo lo filtra y ordena él.
+//
+// Devuelve siempre un sobre paginado { items, total, page, pageSize }.
+// Si el backend responde un arreglo plano (versión sin paginación, que
+// ignora los parámetros), la consulta se aplica aquí en el cliente
+// (applyEventsQuery) para que filtros y paginación sigan funcionando.
+export async function getEventsApi(
+    token: string,
+    query: EventsQuery = {},
+    options: ApiCallOptions = {}
+): Promise<Paginated<Event>> {
+    const res = await apiFetch(
+        `/events${buildQueryString({ ...query })}`,
+        options,
+        token,
+        eventsResponseSchema
+    );
+
+    if (Array.isArray(res)) {
+        return applyEventsQuery(res, query);
+    }
+
+    return res;
 }
 
 // Crear nuevo evento (POST /events)
 //
-// data debe incluir: name, description, date, city.
+// data debe incluir: name, description, date, city (capacity es opcional).
 // El backend se encarga de asignar eventId y createdBy según el usuario del token.
 export async function createEventApi(
     token: string,
-    data: { name: string; description: string; date: string; city: string }
+    data: {
+        name: string;
+        description: string;
+        date: string;
+        city: string;
+        capacity?: number;
+    },
+    options: ApiCallOptions = {}
 ): Promise<Event> {
-    return apiFetch<Event>(
+    return apiFetch(
         "/events",
         {
+            ...options,
             method: "POST",
-            body: JSON.stringify(data),
+            body: JSON.stringify(toApi("event", data)),
         },
-        token
+        token,
+        eventSchema
     );
 }
 
 // Obtener detalle de un evento (GET /events/{id})
 export async function getEventByIdApi(
     token: string,
-    eventId: string
+    eventId: string,
+    options: ApiCallOptions = {}
 ): Promise<Event> {
-    return apiFetch<Event>(`/events/${eventId}`, {}, token);
+    return apiFetch(`/events/${eventId}`, options, token, eventSchema);
 }
 
 // Actualizar un evento (PUT /events/{id})
-// Solo el creador debería poder hacerlo (el backend valida createdBy vs token).
+// Solo el creador o un admin (el backend valida createdBy / role vs token).
 export async function updateEventApi(
     token: string,
     eventId: string,
-    data: { name: string; description: string; date: string; city: string }
+    data: {
+        name: string;
+        description: string;
+        date: string;
+        city: string;
+        capacity?: number;
+    },
+    options: ApiCallOptions = {}
 ): Promise<Event> {
-    return apiFetch<Event>(
+    return apiFetch(
         `/events/${eventId}`,
         {
+            ...options,
             method: "PUT",
-            body: JSON.stringify(data),
+            body: JSON.stringify(toApi("event", data)),
         },
-        token
+        token,
+        eventSchema
+    );
+}
+
+// Reasignar el creador de un evento (PATCH /events/{id} { createdBy })
+// Solo admin (403 si no). 400 si createdBy no es un usuario existente.
+export async function reassignEventApi(
+    token: string,
+    eventId: string,
+    createdBy: string,
+    options: ApiCallOptions = {}
+): Promise<Event> {
+    return apiFetch(
+        `/events/${eventId}`,
+        {
+            ...options,
+            method: "PATCH",
+            body: JSON.stringify(toApi("event", { createdBy })),
+        },
+        token,
+        eventSchema
     );
 }
 
 // Eliminar un evento (DELETE /events/{id})
-// Solo el creador debería poder hacerlo.
+// Solo el creador o un admin.
 export async function deleteEventApi(
     token: string,
-    eventId: string
+    eventId: string,
+    options: ApiCallOptions = {}
 ): Promise<void> {
     await apiFetch<unknown>(
         `/events/${eventId}`,
         {
+            ...options,
             method: "DELETE",
         },
         token
@@ -219,13 +642,35 @@ export async function deleteEventApi(
 // Aquí mandamos eventId + userId y el backend genera regId / registeredAt.
 export async function createRegistrationApi(
     token: string,
-    data: { eventId: string; userId: string }
+    data: { eventId: string; userId: string },
+    options: ApiCallOptions = {}
 ): Promise<Registration> {
-    return apiFetch<Registration>(
+    return apiFetch(
         "/registrations",
         {
+            ...options,
             method: "POST",
-            body: JSON.stringify(data),
+            body: JSON.stringify(toApi("registration", data)),
+        },
+        token,
+        registrationSchema
+    );
+}
+
+// Cancelar inscripción (DELETE /registrations/{regId})
+//
+// Usado por RegisterButton (toggle unirse/salir) en EventDetailPage y ProfilePage.
+// Solo el propio usuario debería poder cancelar su inscripción.
+export async function deleteRegistrationApi(
+    token: string,
+    regId: string,
+    options: ApiCallOptions = {}
+): Promise<void> {
+    await apiFetch<unknown>(
+        `/registrations/${regId}`,
+        {
+            ...options,
+            method: "DELETE",
         },
         token
     );
@@ -234,9 +679,10 @@ export async function createRegistrationApi(
 // Obtener TODAS las inscripciones (GET /registrations)
 // Probablemente no lo uses directo, pero lo dejamos por si acaso.
 export async function getRegistrationsApi(
-    token: string
+    token: string,
+    options: ApiCallOptions = {}
 ): Promise<Registration[]> {
-    return apiFetch<Registration[]>("/registrations", {}, token);
+    return apiFetch("/registrations", options, token, array(registrationSchema));
 }
 
 // Obtener inscripciones filtradas por eventId:
@@ -247,9 +693,15 @@ export async function getRegistrationsApi(
 // - si el usuario actual ya está inscrito.
 export async function getRegistrationsByEventApi(
     token: string,
-    eventId: string
+    eventId: string,
+    options: ApiCallOptions = {}
 ): Promise<Registration[]> {
-    return apiFetch<Registration[]>(`/registrations?eventId=${eventId}`, {}, token);
+    return apiFetch(
+        `/registrations?eventId=${eventId}`,
+        options,
+        token,
+        array(registrationSchema)
+    );
 }
 
 // Obtener inscripciones filtradas por userId:
@@ -258,7 +710,162 @@ export async function getRegistrationsByEventApi(
 // Usado en ProfilePage para listar los eventos a los que el usuario se ha unido.
 export async function getRegistrationsByUserApi(
     token: string,
-    userId: string
+    userId: string,
+    options: ApiCallOptions = {}
 ): Promise<Registration[]> {
-    return apiFetch<Registration[]>(`/registrations?userId=${userId}`, {}, token);
+    return apiFetch(
+        `/registrations?userId=${userId}`,
+        options,
+        token,
+        array(registrationSchema)
+    );
+}
+
+///////////////////////
+// POSTS (CRUD)
+///////////////////////
+
+// Obtener lista de posts del feed (GET /posts)
+export async function getPostsApi(token: string, options: ApiCallOptions = {}): Promise<Post[]> {
+    return apiFetch("/posts", options, token, array(postSchema));
+}
+
+// Crear nuevo post (POST /posts)
+//
+// data debe incluir: title, body.
+// El backend asigna id, author y createdAt según el usuario del token.
+export async function createPostApi(
+    token: string,
+    data: { title: string; body: string },
+    options: ApiCallOptions = {}
+): Promise<Post> {
+    return apiFetch(
+        "/posts",
+        {
+            ...options,
+            method: "POST",
+            body: JSON.stringify(toApi("post", data)),
+        },
+        token,
+        postSchema
+    );
+}
+
+// Obtener detalle de un post (GET /posts/{id})
+export async function getPostByIdApi(
+    token: string,
+    postId: number,
+    options: ApiCallOptions = {}
+): Promise<Post> {
+    return apiFetch(`/posts/${postId}`, options, token, postSchema);
+}
+
+// Actualizar un post (PUT /posts/{id})
+// Solo el autor debería poder hacerlo (el backend valida author vs token).
+export async function updatePostApi(
+    token: string,
+    postId: number,
+    data: { title: string; body: string },
+    options: ApiCallOptions = {}
+): Promise<Post> {
+    return apiFetch(
+        `/posts/${postId}`,
+        {
+            ...options,
+            method: "PUT",
+            body: JSON.stringify(toApi("post", data)),
+        },
+        token,
+        postSchema
+    );
+}
+
+// Eliminar un post (DELETE /posts/{id})
+// Solo el autor debería poder hacerlo.
+export async function deletePostApi(
+    token: string,
+    postId: number,
+    options: ApiCallOptions = {}
+): Promise<void> {
+    await apiFetch<unknown>(
+        `/posts/${postId}`,
+        {
+            ...options,
+            method: "DELETE",
+        },
+        token
+    );
+}
+
+///////////////////////
+// COMMENTS
+///////////////////////
+
+// Obtener comentarios de un post (GET /posts/{id}/comments)
+//
+// Usado en PostDetailPage junto con getPostByIdApi.
+export async function getCommentsByPostApi(
+    token: string,
+    postId: number,
+    options: ApiCallOptions = {}
+): Promise<Comment[]> {
+    return apiFetch(`/posts/${postId}/comments`, options, token, array(commentSchema));
+}
+
+// Crear comentario en un post (POST /posts/{id}/comments)
+//
+// Mandamos solo el body; el backend asigna id, postId y author.
+export async function createCommentApi(
+    token: string,
+    postId: number,
+    data: { body: string },
+    options: ApiCallOptions = {}
+): Promise<Comment> {
+    return apiFetch(
+        `/posts/${postId}/comments`,
+        {
+            ...options,
+            method: "POST",
+            body: JSON.stringify(toApi("comment", data)),
+        },
+        token,
+        commentSchema
+    );
+}
+
+// Actualizar un comentario (PUT /comments/{id})
+// Solo el autor del comentario debería poder hacerlo.
+export async function updateCommentApi(
+    token: string,
+    commentId: number,
+    data: { body: string },
+    options: ApiCallOptions = {}
+): Promise<Comment> {
+    return apiFetch(
+        `/comments/${commentId}`,
+        {
+            ...options,
+            method: "PUT",
+            body: JSON.stringify(toApi("comment", data)),
+        },
+        token,
+        commentSchema
+    );
+}
+
+// Eliminar un comentario (DELETE /comments/{id})
+// Solo el autor del comentario debería poder hacerlo.
+export async function deleteCommentApi(
+    token: string,
+    commentId: number,
+    options: ApiCallOptions = {}
+): Promise<void> {
+    await apiFetch<unknown>(
+        `/comments/${commentId}`,
+        {
+            ...options,
+            method: "DELETE",
+        },
+        token
+    );
 }
@@ -0,0 +1,50 @@
+// src/lib/calendarFeed.ts
+//
+// FEED DE CALENDARIO DEL USUARIO (cliente de /api/calendar/feed).
+//
+// El feed NO es parte de la API del backend: lo sirve esta misma app (route
+// handlers en src/app/api/calendar), por eso estas llamadas no pasan por
+// api.ts. Se autentican con el mismo token de la API.
+//
+// - getCalendarFeedApi    → URL de suscripción actual (o null).
+// - createCalendarFeedApi → crea o regenera el enlace (invalida el anterior).
+// - revokeCalendarFeedApi → revoca el enlace.
+//
+// ¿Quién usa este archivo?
+// - queries.ts → useCalendarFeed, createCalendarFeed, revokeCalendarFeed
+//   (CalendarFeedSection, en ProfilePage).
+
+const FEED_ENDPOINT = "/api/calendar/feed";
+
+async function feedFetch(
+    token: string,
+    method: "GET" | "POST" | "DELETE",
+    signal?: AbortSignal
+): Promise<Response> {
+    const res = await fetch(FEED_ENDPOINT, {
+        method,
+        headers: { Authorization: `Bearer ${token}` },
+        signal,
+    });
+
+    if (!res.ok) {
+        throw new Error(`No se pudo gestionar el calendario (${res.status})`);
+    }
+    return res;
+}
+
+export async function getCalendarFeedApi(token: string, signal?: AbortSignal): Promise<string | null> {
+    const res = await feedFetch(token, "GET", signal);
+    const { url } = (await res.json()) as { url: string | null };
+    return url;
+}
+
+export async function createCalendarFeedApi(token: string): Promise<string> {
+    const res = await feedFetch(token, "POST");
+    const { url } = (await res.json()) as { url: string };
+    return url;
+}
+
+export async function revokeCalendarFeedApi(token: string): Promise<void> {
+    await feedFetch(token, "DELETE");
+}
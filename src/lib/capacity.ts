@@ -0,0 +1,83 @@
+// src/lib/capacity.ts
+//
+// CUPOS Y LISTA DE ESPERA DE EVENTOS.
+//
+// El backend acepta inscripciones sin límite, así que el cupo se aplica
+// aquí, de forma determinista, a partir de las inscripciones:
+//
+//  - Se ordenan por registeredAt (la más antigua primero).
+//  - Las primeras `capacity` son confirmadas.
+//  - El resto queda en lista de espera, en ese mismo orden.
+//
+// Así, cuando alguien sale del evento, el primero de la lista de espera
+// pasa automáticamente a confirmado (promoción por orden de registeredAt)
+// sin que nadie tenga que hacer nada extra.
+//
+// Si el evento no tiene capacity, todas las inscripciones son confirmadas.
+//
+// ¿Quién usa este archivo?
+// - EventItem        → "N de M cupos" y tamaño de la lista de espera.
+// - RegisterButton   → "Unirme" vs "Unirme a la lista de espera".
+// - EventDetailPage  → total de participantes confirmados.
+// - ProfilePage      → posición del usuario en la lista de espera.
+
+import type { Event, Registration } from "./types";
+
+// Copia ordenada por registeredAt ascendente (no muta el arreglo original).
+// Desempate por regId para que el orden sea estable.
+export function sortByRegisteredAt(registrations: Registration[]): Registration[] {
+    return [...registrations].sort(
+        (a, b) =>
+            a.registeredAt.localeCompare(b.registeredAt) ||
+            a.regId.localeCompare(b.regId)
+    );
+}
+
+// Separa inscripciones en confirmadas y lista de espera según el cupo.
+export function splitByCapacity(
+    registrations: Registration[],
+    capacity?: number
+): { confirmed: Registration[]; waitlist: Registration[] } {
+    const sorted = sortByRegisteredAt(registrations);
+
+    if (capacity === undefined) {
+        return { confirmed: sorted, waitlist: [] };
+    }
+
+    return {
+        confirmed: sorted.slice(0, capacity),
+        waitlist: sorted.slice(capacity),
+    };
+}
+
+// Cuenta confirmados / en espera solo con el total (cuando no tenemos
+// las inscripciones completas, ej. en EventItem con participantsCount).
+export function countByCapacity(
+    total: number,
+    capacity?: number
+): { confirmed: number; waitlisted: number } {
+    if (capacity === undefined) {
+        return { confirmed: total, waitlisted: 0 };
+    }
+    return {
+        confirmed: Math.min(total, capacity),
+        waitlisted: Math.max(0, total - capacity),
+    };
+}
+
+// true si el evento tiene cupo y ya se llenó.
+export function isEventFull(event: Event, registrations: Registration[]): boolean {
+    return event.capacity !== undefined && registrations.length >= event.capacity;
+}
+
+// Posición (1, 2, 3...) del usuario en la lista de espera del evento,
+// o null si está confirmado o no está inscrito.
+export function getWaitlistPosition(
+    registrations: Registration[],
+    capacity: number | undefined,
+    userId: string
+): number | null {
+    const { waitlist } = splitByCapacity(registrations, capacity);
+    const index = waitlist.findIndex((reg) => reg.userId === userId);
+    return index === -1 ? null : index + 1;
+}
@@ -0,0 +1,110 @@
+// src/lib/csv.ts
+//
+// GENERACIÓN, LECTURA Y DESCARGA DE ARCHIVOS CSV.
+//
+// - toCsv: convierte filas (arreglos de celdas) en texto CSV, escapando
+//   comillas, comas y saltos de línea según RFC 4180. Las celdas de texto
+//   que empiezan por = + - @, tab o \r van con un ' delante para que
+//   Excel / Sheets no las ejecuten como fórmulas (inyección CSV).
+// - parseCsv: lo inverso, texto CSV → filas de celdas (mismas reglas).
+// - downloadFile: dispara la descarga de un texto como archivo en el navegador.
+//
+// ¿Quién usa este archivo?
+// - eventExport  → CSV de eventos y de asistentes (toCsv).
+// - userImport   → leer el CSV de alta masiva de usuarios (/users/new).
+// - AttendeeList, EventExportButtons, EventDetailPage, UserCsvImport
+//   → downloadFile.
+
+export type CsvCell = string | number | null | undefined;
+
+// Escapa una celda: si tiene coma, comillas o salto de línea, va entre
+// comillas dobles y las comillas internas se duplican. El texto que Excel
+// tomaría como fórmula (=, +, -, @, tab o \r al inicio) se neutraliza con
+// un '. Los números (ej. un -1) se dejan tal cual.
+function escapeCell(value: CsvCell, guardFormulas: boolean): string {
+    let text = value === null || value === undefined ? "" : String(value);
+    if (guardFormulas && typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    if (/[",\r\n]/.test(text)) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+// Convierte filas en CSV. La primera fila suele ser el encabezado.
+// Usamos \r\n como fin de línea (lo que espera Excel).
+// guardFormulas: false para un CSV que la app vuelve a leer tal cual (ej.
+// las filas fallidas del alta masiva): el ' cambiaría los datos.
+export function toCsv(rows: CsvCell[][], { guardFormulas = true } = {}): string {
+    return rows
+        .map((row) => row.map((cell) => escapeCell(cell, guardFormulas)).join(","))
+        .join("\r\n");
+}
+
+// Convierte texto CSV en filas de celdas (sin recortar espacios).
+// - Celdas entre comillas pueden tener comas, saltos de línea y "" (= ").
+// - Acepta \r\n o \n como fin de línea e ignora el BOM inicial y las
+//   líneas vacías (típicas al final de un archivo exportado de Excel).
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+
+    const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+    function endRow() {
+        row.push(cell);
+        if (row.length > 1 || row[0] !== "") rows.push(row);
+        row = [];
+        cell = "";
+    }
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== "" || row.length > 0) endRow();
+    return rows;
+}
+
+// Descarga `content` como archivo `filename` en el navegador.
+// Para CSV anteponemos BOM UTF-8 para que Excel respete las tildes.
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+    const bom = mimeType.startsWith("text/csv") ? "\uFEFF" : "";
+    const blob = new Blob([bom + content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Firefox y Safari empiezan la descarga después del click: si revocamos
+    // la URL en el acto, puede fallar.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,30 @@
+// src/lib/dates.ts
+//
+// INTERPRETAR LAS FECHAS QUE MANDA EL BACKEND.
+//
+// El backend a veces manda fechas sin zona horaria (2025-12-05T18:00). Por
+// defecto JavaScript las lee como hora LOCAL, así que el mismo evento salía
+// a distinta hora según dónde estuviera quien exporta. Regla única: una
+// fecha con hora y sin zona (ni Z ni ±hh:mm) es UTC.
+//
+// ¿Quién usa este archivo?
+// - ical.ts       → DTSTART / DTEND de cada evento.
+// - eventExport.ts → columnas de fecha (UTC) de los CSV.
+
+// Termina en Z o en un desfase ±hh:mm / ±hhmm.
+const ZONE_SUFFIX = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+// Fecha con hora (YYYY-MM-DDTHH:mm...), con T o con espacio.
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+// Date de un valor del backend (sin zona → UTC), o null si no es válida.
+export function parseUtcDate(value: string): Date | null {
+    const trimmed = value.trim();
+    const normalized =
+        DATE_TIME.test(trimmed) && !ZONE_SUFFIX.test(trimmed)
+            ? `${trimmed.replace(" ", "T")}Z`
+            : trimmed;
+
+    const date = new Date(normalized);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
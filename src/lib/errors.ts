@@ -0,0 +1,209 @@
+// src/lib/errors.ts
+//
+// ERRORES TIPADOS DE LA API.
+//
+// Responsabilidades:
+// - Definir ApiError: el error que lanza apiFetch cuando algo sale mal.
+// - Definir ResponseValidationError: la respuesta llegó (2xx) pero no tiene
+//   la forma esperada (schemas.ts); nombra el campo que falló.
+// - Clasificar cada error en una categoría (unauthorized, forbidden, etc.)
+//   a partir del status HTTP.
+// - Convertir un error cualquiera en un mensaje en español para la UI
+//   (getErrorMessage).
+//
+// ¿Quién usa este archivo?
+// - api.ts           → lanza ApiError y ResponseValidationError desde apiFetch.
+// - EventForm        → "no eres el creador del evento", validaciones, etc.
+// - RegisterButton   → "ya estás inscrito" (409), evento inexistente (404).
+// - LoginPage        → credenciales inválidas (401) vs servidor caído.
+// - NewUserPage      → "ya existe un usuario con ese email" (409).
+
+///////////////////////
+// CATEGORÍAS
+///////////////////////
+
+// Categoría del error, independiente del código exacto.
+// La UI decide el mensaje según la categoría, no según el número.
+export type ApiErrorCategory =
+    | "unauthorized" // 401: token inválido / credenciales incorrectas
+    | "forbidden"    // 403: autenticado pero sin permiso (ej. no es el creador)
+    | "not_found"    // 404: el recurso no existe
+    | "validation"   // 400 / 422: datos inválidos en el body
+    | "conflict"     // 409: duplicado (email existente, ya inscrito, ...)
+    | "network"      // no hubo respuesta (servidor caído, sin conexión, CORS)
+    | "server"       // 5xx
+    | "unknown";     // cualquier otro status
+
+// Traduce un status HTTP a su categoría.
+// status = 0 significa que fetch ni siquiera obtuvo respuesta.
+export function categorizeStatus(status: number): ApiErrorCategory {
+    if (status === 0) return "network";
+    if (status === 401) return "unauthorized";
+    if (status === 403) return "forbidden";
+    if (status === 404) return "not_found";
+    if (status === 400 || status === 422) return "validation";
+    if (status === 409) return "conflict";
+    if (status >= 500) return "server";
+    return "unknown";
+}
+
+///////////////////////
+// ApiError
+///////////////////////
+
+// Error lanzado por apiFetch.
+//
+// Campos:
+// - status:   código HTTP (0 si fue error de red).
+// - endpoint: ruta relativa llamada, por ejemplo "/events/E001".
+// - method:   método HTTP (GET, POST, ...).
+// - body:     cuerpo de error parseado como JSON (o el texto plano si no era JSON).
+// - category: categoría calculada con categorizeStatus.
+// - timedOut: no hubo respuesta porque se agotó el tiempo. A diferencia de
+//   un fallo de red, la petición pudo llegar al servidor y procesarse.
+export class ApiError extends Error {
+    readonly status: number;
+    readonly endpoint: string;
+    readonly method: string;
+    readonly body: unknown;
+    readonly category: ApiErrorCategory;
+    readonly timedOut: boolean;
+
+    constructor(params: {
+        status: number;
+        endpoint: string;
+        method: string;
+        body?: unknown;
+        message?: string;
+        timedOut?: boolean;
+    }) {
+        super(
+            params.message ??
+                `Error API ${params.status} en ${params.method} ${params.endpoint}`
+        );
+        this.name = "ApiError";
+        this.status = params.status;
+        this.endpoint = params.endpoint;
+        this.method = params.method;
+        this.body = params.body;
+        this.category = categorizeStatus(params.status);
+        this.timedOut = params.timedOut ?? false;
+    }
+
+    // Mensaje que manda el backend en el body, si lo hay.
+    // Soporta las formas más comunes: { message }, { detail }, { error }.
+    get serverMessage(): string | null {
+        if (typeof this.body === "string") {
+            return this.body.trim() || null;
+        }
+        if (this.body && typeof this.body === "object") {
+            const data = this.body as Record<string, unknown>;
+            for (const key of ["message", "detail", "error"]) {
+                if (typeof data[key] === "string" && data[key]) {
+                    return data[key] as string;
+                }
+            }
+        }
+        return null;
+    }
+}
+
+// Type guard para usar en los catch: if (isApiError(err)) { ... }
+export function isApiError(err: unknown): err is ApiError {
+    return err instanceof ApiError;
+}
+
+///////////////////////
+// ResponseValidationError
+///////////////////////
+
+// Error lanzado por apiFetch cuando la respuesta no pasa su esquema.
+// Casi siempre significa que el backend renombró o quitó un campo:
+// la solución suele ser un renombre en adapters.ts.
+//
+// Campos:
+// - endpoint / method: igual que en ApiError.
+// - field:    ruta del campo que falló, ej. "items[2].createdBy".
+// - expected: tipo esperado ("string", "number", "object", ...).
+// - received: tipo que llegó ("undefined", "null", ...).
+export class ResponseValidationError extends Error {
+    readonly endpoint: string;
+    readonly method: string;
+    readonly field: string;
+    readonly expected: string;
+    readonly received: string;
+
+    constructor(params: {
+        endpoint: string;
+        method: string;
+        field: string;
+        expected: string;
+        received: string;
+    }) {
+        super(
+            `Respuesta inválida en ${params.method} ${params.endpoint}: ` +
+                `campo "${params.field || "(raíz)"}" esperaba ${params.expected}, llegó ${params.received}`
+        );
+        this.name = "ResponseValidationError";
+        this.endpoint = params.endpoint;
+        this.method = params.method;
+        this.field = params.field;
+        this.expected = params.expected;
+        this.received = params.received;
+    }
+}
+
+export function isResponseValidationError(err: unknown): err is ResponseValidationError {
+    return err instanceof ResponseValidationError;
+}
+
+///////////////////////
+// MENSAJES PARA LA UI
+///////////////////////
+
+// Mensajes por defecto para cada categoría.
+const DEFAULT_MESSAGES: Record<ApiErrorCategory, string> = {
+    unauthorized: "Tu sesión no es válida. Inicia sesión de nuevo.",
+    forbidden: "No tienes permiso para realizar esta acción.",
+    not_found: "El recurso solicitado no existe.",
+    validation: "Los datos enviados no son válidos.",
+    conflict: "El recurso ya existe o está en conflicto.",
+    network: "No se pudo conectar con el servidor. Revisa tu conexión.",
+    server: "El servidor tuvo un error. Intenta más tarde.",
+    unknown: "Ocurrió un error inesperado.",
+};
+
+// Convierte cualquier error en un mensaje para mostrar al usuario.
+//
+// - overrides: mensajes específicos por categoría para el contexto actual.
+//   Ej: { conflict: "Ya existe un usuario con ese email." }
+// - fallback: mensaje si el error no es un ApiError (bug de JS, etc.).
+//
+// Un ResponseValidationError no depende del contexto: siempre se explica
+// igual, nombrando el campo para que sea fácil de reportar.
+//
+// Prioridad: override de la categoría → mensaje del backend (solo para
+// validation/conflict, que suelen traer detalles útiles) → mensaje por defecto.
+export function getErrorMessage(
+    err: unknown,
+    overrides: Partial<Record<ApiErrorCategory, string>> = {},
+    fallback = DEFAULT_MESSAGES.unknown
+): string {
+    if (isResponseValidationError(err)) {
+        return `El servidor respondió con un formato inesperado (campo "${err.field || "(raíz)"}").`;
+    }
+
+    if (!isApiError(err)) {
+        return fallback;
+    }
+
+    const override = overrides[err.category];
+    if (override) return override;
+
+    if (err.category === "validation" || err.category === "conflict") {
+        const serverMessage = err.serverMessage;
+        if (serverMessage) return serverMessage;
+    }
+
+    return DEFAULT_MESSAGES[err.category];
+}
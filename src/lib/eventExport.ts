@@ -0,0 +1,74 @@
+// src/lib/eventExport.ts
+//
+// EXPORTAR EVENTOS E INSCRIPCIONES A CSV.
+//
+// - eventsToCsv: lista de eventos (ej. el listado filtrado de /events).
+// - attendeesToCsv: asistentes de un evento, con su estado (confirmado /
+//   lista de espera, según capacity.ts).
+//
+// Las fechas salen en ISO 8601 UTC (2025-12-05T18:00:00.000Z) para que no
+// dependan de la zona horaria de quien exporta; una fecha sin zona se lee
+// como UTC (parseUtcDate, dates.ts) y si no es válida se deja tal cual. El
+// calendario .ics equivalente lo arma ical.ts, con la misma regla.
+//
+// ¿Quién usa este archivo?
+// - EventExportButtons (EventsPage) → eventsToCsv.
+// - AttendeeList (EventDetailPage)  → attendeesToCsv.
+
+import { splitByCapacity } from "./capacity";
+import { toCsv } from "./csv";
+import { parseUtcDate } from "./dates";
+import type { Event, Registration, User } from "./types";
+
+export const CSV_MIME_TYPE = "text/csv;charset=utf-8";
+
+// Fecha en ISO UTC, o el valor original si no se puede interpretar.
+function toUtcIso(value: string): string {
+    return parseUtcDate(value)?.toISOString() ?? value;
+}
+
+// creatorNames: userId → nombre, para la columna "Creador" (si falta, el id).
+export function eventsToCsv(events: Event[], creatorNames: Record<string, string> = {}): string {
+    return toCsv([
+        ["ID", "Nombre", "Descripción", "Fecha (UTC)", "Ciudad", "Cupos", "Inscritos", "Creador", "ID del creador"],
+        ...events.map((event) => [
+            event.eventId,
+            event.name,
+            event.description,
+            toUtcIso(event.date),
+            event.city,
+            event.capacity,
+            event.participantsCount,
+            creatorNames[event.createdBy] ?? event.createdBy,
+            event.createdBy,
+        ]),
+    ]);
+}
+
+// Asistentes en orden de inscripción: primero los confirmados y luego la
+// lista de espera. usersById: userId → User ya resuelto (si falta, el id).
+export function attendeesToCsv(
+    registrations: Registration[],
+    usersById: Record<string, User>,
+    capacity?: number
+): string {
+    const { confirmed, waitlist } = splitByCapacity(registrations, capacity);
+
+    const row = (reg: Registration, status: string) => {
+        const user = usersById[reg.userId];
+        return [
+            user?.name ?? reg.userId,
+            user?.email,
+            user?.city,
+            toUtcIso(reg.registeredAt),
+            status,
+            reg.userId,
+        ];
+    };
+
+    return toCsv([
+        ["Nombre", "Email", "Ciudad", "Fecha de inscripción (UTC)", "Estado", "ID de usuario"],
+        ...confirmed.map((reg) => row(reg, "Confirmado")),
+        ...waitlist.map((reg) => row(reg, "Lista de espera")),
+    ]);
+}
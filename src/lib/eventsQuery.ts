@@ -0,0 +1,58 @@
+// src/lib/eventsQuery.ts
+//
+// APLICAR UNA EventsQuery SOBRE UNA LISTA DE EVENTOS.
+//
+// Filtra (city, from, to, q, createdBy), ordena (sortBy / sortDir) y pagina
+// (page / pageSize) igual que lo haría el backend:
+// - city: igual, sin distinguir mayúsculas.
+// - from / to: por día (YYYY-MM-DD), ambos inclusive.
+// - q: texto en nombre o descripción, sin distinguir mayúsculas.
+// - Sin page ni pageSize devuelve todos en un solo sobre.
+//
+// ¿Quién usa este archivo?
+// - api.ts (getEventsApi) → cuando el backend responde un arreglo plano e
+//   ignora los parámetros, la consulta se resuelve aquí en el cliente.
+// - Backend mock (GET /events) → las mismas reglas en el servidor.
+//
+// Sin React ni Node: corre en el navegador y en los route handlers.
+
+import type { Event, EventsQuery, Paginated } from "./types";
+
+// Tamaño de página si viene page sin pageSize.
+const DEFAULT_PAGE_SIZE = 10;
+
+export function applyEventsQuery(events: Event[], query: EventsQuery = {}): Paginated<Event> {
+    const city = query.city?.trim().toLowerCase();
+    const q = query.q?.trim().toLowerCase();
+    const sortBy = query.sortBy ?? "date";
+    const sortDir = query.sortDir === "desc" ? -1 : 1;
+
+    const filtered = events.filter((event) => {
+        const day = event.date.slice(0, 10);
+        return (
+            (!city || event.city.toLowerCase() === city) &&
+            (!query.from || day >= query.from) &&
+            (!query.to || day <= query.to) &&
+            (!q ||
+                event.name.toLowerCase().includes(q) ||
+                event.description.toLowerCase().includes(q)) &&
+            (!query.createdBy || event.createdBy === query.createdBy)
+        );
+    });
+
+    filtered.sort((a, b) => a[sortBy].localeCompare(b[sortBy], "es") * sortDir);
+
+    const total = filtered.length;
+    const paginate = query.page !== undefined || query.pageSize !== undefined;
+    const pageSize = paginate
+        ? Math.max(1, query.pageSize || DEFAULT_PAGE_SIZE)
+        : Math.max(total, 1);
+    const page = paginate ? Math.max(1, query.page || 1) : 1;
+
+    return {
+        items: filtered.slice((page - 1) * pageSize, page * pageSize),
+        total,
+        page,
+        pageSize,
+    };
+}
@@ -0,0 +1,87 @@
+// src/lib/eventsSearchParams.ts
+//
+// FILTROS DE /events ↔ QUERY STRING DE LA URL.
+//
+// EventsPage guarda filtros, orden y página en la URL para poder recargar,
+// compartir o guardar en marcadores vistas como:
+//
+//   /events?city=Bogotá&from=2025-12-01&to=2025-12-31
+//
+// - parseEventsSearchParams: URL → { filters, page } (valida lo que llega).
+// - buildEventsSearch:       { filters, page } → "?city=...&page=2".
+//
+// Los valores por defecto (orden por fecha ascendente, página 1) no se
+// escriben en la URL para que los enlaces queden cortos.
+
+import type { EventSortField, EventsQuery, SortDirection } from "./types";
+
+// Filtros + orden (EventsQuery sin la paginación).
+export type EventsFilterParams = Pick<
+    EventsQuery,
+    "city" | "from" | "to" | "q" | "sortBy" | "sortDir"
+>;
+
+export const DEFAULT_EVENT_FILTERS: EventsFilterParams = {
+    sortBy: "date",
+    sortDir: "asc",
+};
+
+const SORT_FIELDS: EventSortField[] = ["date", "name", "city"];
+const SORT_DIRECTIONS: SortDirection[] = ["asc", "desc"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Interfaz mínima de URLSearchParams / ReadonlyURLSearchParams de Next.
+interface SearchParamsLike {
+    get(name: string): string | null;
+}
+
+// Lee filtros y página desde la URL. Lo inválido se ignora (no rompe la página).
+export function parseEventsSearchParams(params: SearchParamsLike): {
+    filters: EventsFilterParams;
+    page: number;
+} {
+    const text = (name: string) => params.get(name)?.trim() || undefined;
+    const date = (name: string) => {
+        const value = text(name);
+        return value && DATE_RE.test(value) ? value : undefined;
+    };
+
+    const sortBy = params.get("sortBy") as EventSortField | null;
+    const sortDir = params.get("sortDir") as SortDirection | null;
+    const page = Number(params.get("page"));
+
+    return {
+        filters: {
+            city: text("city"),
+            from: date("from"),
+            to: date("to"),
+            q: text("q"),
+            sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_EVENT_FILTERS.sortBy,
+            sortDir:
+                sortDir && SORT_DIRECTIONS.includes(sortDir)
+                    ? sortDir
+                    : DEFAULT_EVENT_FILTERS.sortDir,
+        },
+        page: Number.isInteger(page) && page > 1 ? page : 1,
+    };
+}
+
+// Construye el query string ("" o "?a=1&b=2") para filtros + página.
+export function buildEventsSearch(filters: EventsFilterParams, page = 1): string {
+    const search = new URLSearchParams();
+
+    if (filters.city) search.set("city", filters.city);
+    if (filters.from) search.set("from", filters.from);
+    if (filters.to) search.set("to", filters.to);
+    if (filters.q) search.set("q", filters.q);
+    if (filters.sortBy && filters.sortBy !== DEFAULT_EVENT_FILTERS.sortBy) {
+        search.set("sortBy", filters.sortBy);
+    }
+    if (filters.sortDir && filters.sortDir !== DEFAULT_EVENT_FILTERS.sortDir) {
+        search.set("sortDir", filters.sortDir);
+    }
+    if (page > 1) search.set("page", String(page));
+
+    const qs = search.toString();
+    return qs ? `?${qs}` : "";
+}
@@ -0,0 +1,148 @@
+// src/lib/ical.ts
+//
+// GENERACIÓN DE CALENDARIOS iCalendar (.ics, RFC 5545).
+//
+//   eventsToIcs(events, { calendarName: "Eventos" })  → texto .ics
+//
+// Se abre con Google Calendar, Outlook, Thunderbird, el calendario del
+// celular, etc. Reglas que importan:
+//
+// - UID estable por evento (`${eventId}@gestor-eventos`): si el mismo evento
+//   se importa dos veces, o cambia de fecha, el calendario lo actualiza en
+//   vez de duplicarlo.
+// - Fechas en UTC (sufijo Z). El backend no manda hora de fin, así que el
+//   evento dura DEFAULT_DURATION_MS. Una fecha sin hora (YYYY-MM-DD) es un
+//   evento de día completo; una con hora y sin zona se lee como UTC
+//   (parseUtcDate, dates.ts), igual que en el CSV.
+// - Texto escapado (\ ; , y saltos de línea) y líneas plegadas a 75 bytes.
+// - Fin de línea \r\n. Los eventos con fecha inválida se omiten.
+//
+// Sin React ni DOM: también corre en route handlers.
+//
+// ¿Quién usa este archivo?
+// - EventExportButtons (EventsPage) → calendario con la lista filtrada.
+// - EventDetailPage                 → "Añadir al calendario" de un evento.
+// - api/calendar/[feed]             → feed de suscripción de cada usuario.
+
+import { parseUtcDate } from "./dates";
+import type { Event } from "./types";
+
+export const ICS_MIME_TYPE = "text/calendar;charset=utf-8";
+
+// Duración asumida de un evento (el backend solo manda la fecha de inicio).
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+const UID_DOMAIN = "gestor-eventos";
+
+// Largo máximo de una línea en bytes (sin contar \r\n), según RFC 5545.
+const MAX_LINE_BYTES = 75;
+
+export interface IcsOptions {
+    calendarName?: string;
+    // Origen de la app (ej. https://miapp.com) para el enlace URL de cada
+    // evento. Sin él, los eventos van sin URL.
+    baseUrl?: string;
+    // Momento de generación (DTSTAMP); por defecto, ahora.
+    now?: Date;
+}
+
+// UID estable de un evento.
+export function eventUid(eventId: string): string {
+    return `${eventId}@${UID_DOMAIN}`;
+}
+
+// Escapa un valor TEXT: \ ; , y saltos de línea.
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// 2025-12-05T18:00:00.000Z → 20251205T180000Z
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 2025-12-05 → 20251205
+function formatDay(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// Pliega una línea larga: cada trozo de hasta 75 bytes, los siguientes
+// precedidos de un espacio. Nunca corta un carácter UTF-8 a la mitad.
+const encoder = new TextEncoder();
+
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    let bytes = 0;
+
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        // Las líneas de continuación empiezan con un espacio (1 byte).
+        const limit = parts.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+        if (bytes + size > limit) {
+            parts.push(current);
+            current = "";
+            bytes = 0;
+        }
+        current += char;
+        bytes += size;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+}
+
+// Líneas DTSTART / DTEND de un evento, o null si la fecha no es válida.
+function eventDates(value: string): string[] | null {
+    // Solo fecha: evento de día completo (DTEND es el día siguiente).
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        const start = new Date(`${value}T00:00:00Z`);
+        if (Number.isNaN(start.getTime())) return null;
+        const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+        return [`DTSTART;VALUE=DATE:${formatDay(start)}`, `DTEND;VALUE=DATE:${formatDay(end)}`];
+    }
+
+    const start = parseUtcDate(value);
+    if (!start) return null;
+    const end = new Date(start.getTime() + DEFAULT_DURATION_MS);
+    return [`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`];
+}
+
+function eventLines(event: Event, stamp: string, baseUrl?: string): string[] {
+    const dates = eventDates(event.date);
+    if (!dates) return [];
+
+    return [
+        "BEGIN:VEVENT",
+        `UID:${eventUid(event.eventId)}`,
+        `DTSTAMP:${stamp}`,
+        ...dates,
+        `SUMMARY:${escapeText(event.name)}`,
+        `DESCRIPTION:${escapeText(event.description)}`,
+        `LOCATION:${escapeText(event.city)}`,
+        ...(baseUrl ? [`URL:${baseUrl}/events/${encodeURIComponent(event.eventId)}`] : []),
+        "END:VEVENT",
+    ];
+}
+
+// Calendario .ics con los eventos dados.
+export function eventsToIcs(events: Event[], options: IcsOptions = {}): string {
+    const stamp = formatUtc(options.now ?? new Date());
+
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Gestor de eventos//ES",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+        ...events.flatMap((event) => eventLines(event, stamp, options.baseUrl)),
+        "END:VCALENDAR",
+    ];
+
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
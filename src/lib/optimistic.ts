@@ -0,0 +1,124 @@
+// src/lib/optimistic.ts
+//
+// ACTUALIZACIONES OPTIMISTAS SOBRE LA CACHÉ (queryCache.ts).
+//
+// Idea: en vez de esperar la respuesta del servidor, el cambio se pinta
+// YA en la caché con un id temporal (tmp-..., o negativo si el id es
+// numérico). Los componentes reconocen esos ids con isTempId y los
+// muestran como "pendientes". Después:
+// - si la API responde OK → se reemplaza el temporal por lo que devolvió
+//   el servidor (commit);
+// - si falla            → se deshace el cambio (rollback) y se muestra un
+//   aviso de error (toastStore).
+//
+// Un cambio (OptimisticChange) sabe aplicarse, confirmarse y deshacerse
+// sobre las consultas cuya clave empieza por un prefijo. runOptimistic
+// aplica varios a la vez alrededor de una llamada a la API.
+//
+// ¿Quién usa este archivo?
+// - queries.ts → createEvent, updateEvent, createRegistration, createComment.
+// - EventItem, AttendeeList, CommentList, RegisterButton → isTempId.
+
+import { setQueriesData, type QueryKey } from "./queryCache";
+import { useToastStore } from "@/store/toastStore";
+
+///////////////////////
+// IDS TEMPORALES
+///////////////////////
+
+const TEMP_ID_PREFIX = "tmp-";
+
+let nextTempNumber = 1;
+
+// Id temporal para entidades con id string (eventId, regId).
+export function createTempId(): string {
+    return `${TEMP_ID_PREFIX}${Date.now().toString(36)}-${nextTempNumber++}`;
+}
+
+// Id temporal para entidades con id numérico (posts, comentarios):
+// negativo, así nunca choca con uno real.
+export function createTempNumericId(): number {
+    return -nextTempNumber++;
+}
+
+// true si el id es temporal → el elemento todavía no está en el servidor.
+export function isTempId(id: string | number): boolean {
+    return typeof id === "string" ? id.startsWith(TEMP_ID_PREFIX) : id < 0;
+}
+
+///////////////////////
+// CAMBIOS
+///////////////////////
+
+export interface OptimisticChange<TResult> {
+    apply: () => void;
+    commit: (result: TResult) => void;
+    rollback: () => void;
+}
+
+// Cambio genérico sobre las consultas que empiezan por prefix. Las
+// consultas que no están en caché se ignoran (no hay nada que pintar).
+export function optimisticUpdate<TData, TResult>(
+    prefix: QueryKey,
+    updaters: {
+        apply: (prev: TData) => TData;
+        commit?: (prev: TData, result: TResult) => TData;
+        rollback: (prev: TData) => TData;
+    }
+): OptimisticChange<TResult> {
+    return {
+        apply: () => setQueriesData<TData>(prefix, (prev) => prev && updaters.apply(prev)),
+        commit: (result) => {
+            if (updaters.commit) {
+                const commit = updaters.commit;
+                setQueriesData<TData>(prefix, (prev) => prev && commit(prev, result));
+            }
+        },
+        rollback: () => setQueriesData<TData>(prefix, (prev) => prev && updaters.rollback(prev)),
+    };
+}
+
+// Agrega tempItem al final de una lista T[]; al confirmar lo reemplaza por
+// el resultado del servidor y al deshacer lo quita.
+export function optimisticAppend<T>(
+    key: QueryKey,
+    tempItem: T,
+    getId: (item: T) => string | number
+): OptimisticChange<T> {
+    const tempId = getId(tempItem);
+    return optimisticUpdate<T[], T>(key, {
+        apply: (prev) => [...prev, tempItem],
+        commit: (prev, result) =>
+            prev.map((item) => (getId(item) === tempId ? result : item)),
+        rollback: (prev) => prev.filter((item) => getId(item) !== tempId),
+    });
+}
+
+///////////////////////
+// EJECUCIÓN
+///////////////////////
+
+// Aplica los cambios, llama a mutate y confirma o deshace según el
+// resultado. Si falla, muestra errorMessage en un aviso y relanza el error
+// para que el componente pueda reaccionar (ej. devolver el texto al input).
+export async function runOptimistic<TResult>({
+    changes,
+    mutate,
+    errorMessage,
+}: {
+    changes: OptimisticChange<TResult>[];
+    mutate: () => Promise<TResult>;
+    errorMessage: (err: unknown) => string;
+}): Promise<TResult> {
+    changes.forEach((change) => change.apply());
+
+    try {
+        const result = await mutate();
+        changes.forEach((change) => change.commit(result));
+        return result;
+    } catch (err) {
+        changes.forEach((change) => change.rollback());
+        useToastStore.getState().showToast(errorMessage(err), "error");
+        throw err;
+    }
+}
@@ -0,0 +1,225 @@
+// src/lib/outbox.ts
+//
+// ACCIONES SIN CONEXIÓN: ENCOLAR Y REENVIAR.
+//
+// Problema: si se cae la conexión, inscribirse a un evento o publicar un
+// post simplemente fallaba y la acción se perdía.
+//
+// Solución:
+// - sendOrQueue: intenta la llamada; si no hay conexión (navigator.onLine
+//   o error de red) la guarda en la bandeja de salida (outboxStore, en
+//   localStorage) y devuelve el elemento temporal, que sigue en pantalla
+//   como "pendiente". Un timeout NO se encola: la petición pudo llegar al
+//   servidor y reenviarla crearía un duplicado (un post no tiene 409).
+// - flushOutbox: reenvía la bandeja EN ORDEN cuando vuelve la conexión
+//   (OutboxBanner lo llama al montar, al volver a estar online y al cambiar
+//   de sesión). Si una acción vuelve a fallar por red, se detiene y espera
+//   al próximo intento.
+// - Con varias pestañas abiertas todas reciben "online": solo reenvía la que
+//   obtiene el candado "outbox-flush" (Web Locks; si el navegador no lo
+//   tiene, un arriendo en localStorage). Las demás no hacen nada, así un
+//   post encolado no se crea dos veces.
+// - Si el backend rechaza una acción reenviada (ej. 404: el evento se
+//   eliminó mientras tanto), se saca de la cola y queda como conflicto
+//   para que el usuario lo vea. Un 409 en una inscripción significa que ya
+//   estaba inscrito: se da por hecha.
+//
+// ¿Quién usa este archivo?
+// - queries.ts   → sendOrQueue (createRegistration, createPost).
+// - OutboxBanner → flushOutbox.
+
+import { createPostApi, createRegistrationApi } from "./api";
+import { getErrorMessage, isApiError } from "./errors";
+import { invalidateQueries } from "./queryCache";
+import { useOutboxStore, type NewOutboxItem, type OutboxItem } from "@/store/outboxStore";
+import { useToastStore } from "@/store/toastStore";
+
+// true si el navegador sabe que no hay conexión. En el servidor nunca.
+function isOffline(): boolean {
+    return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+// Error de "la petición no salió" (sin conexión, servidor inalcanzable).
+// Un timeout no cuenta: no sabemos si el servidor la procesó.
+function isNetworkError(err: unknown): boolean {
+    return isApiError(err) && err.category === "network" && !err.timedOut;
+}
+
+// Timeout: la petición pudo procesarse en el servidor.
+function isTimeout(err: unknown): boolean {
+    return isApiError(err) && err.timedOut;
+}
+
+function queue(item: NewOutboxItem): void {
+    useOutboxStore.getState().enqueue(item);
+    useToastStore
+        .getState()
+        .showToast("Sin conexión: se enviará cuando vuelva la conexión.", "info");
+}
+
+// Ejecuta send; si no hay conexión encola item y devuelve placeholder (el
+// elemento optimista con id temporal). Cualquier otro error se relanza.
+export async function sendOrQueue<T>(
+    send: () => Promise<T>,
+    item: NewOutboxItem,
+    placeholder: T
+): Promise<T> {
+    if (isOffline()) {
+        queue(item);
+        return placeholder;
+    }
+
+    try {
+        return await send();
+    } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        queue(item);
+        return placeholder;
+    }
+}
+
+///////////////////////
+// REENVÍO
+///////////////////////
+
+// Texto para identificar la acción en un conflicto.
+function describeItem(item: OutboxItem): string {
+    return item.kind === "registration"
+        ? `Inscripción al evento ${item.data.eventId}`
+        : `Post "${item.data.title}"`;
+}
+
+// Reenvía una acción y refresca lo que cambió.
+async function replay(token: string, item: OutboxItem): Promise<void> {
+    if (item.kind === "registration") {
+        try {
+            await createRegistrationApi(token, item.data);
+        } catch (err) {
+            // Ya estaba inscrito (ej. lo hizo desde otro dispositivo).
+            if (!(isApiError(err) && err.category === "conflict")) throw err;
+        }
+        invalidateQueries(["registrations"]);
+        invalidateQueries(["events"]);
+        invalidateQueries(["event", item.data.eventId]);
+    } else {
+        await createPostApi(token, item.data);
+        invalidateQueries(["posts"]);
+    }
+}
+
+let flushing: Promise<void> | null = null;
+
+// Reenvía en orden las acciones del usuario userId. Si ya hay un reenvío
+// en curso (en esta pestaña o en otra) no hace nada más.
+export function flushOutbox(token: string, userId: string): Promise<void> {
+    if (!flushing) {
+        flushing = withFlushLock(() => runFlush(token, userId)).finally(() => {
+            flushing = null;
+        });
+    }
+    return flushing;
+}
+
+///////////////////////
+// CANDADO ENTRE PESTAÑAS
+///////////////////////
+
+const LOCK_NAME = "outbox-flush";
+
+// Arriendo en localStorage (navegadores sin Web Locks): { owner, expires }.
+// Vence solo por si la pestaña que lo tenía se cerró a medio reenvío.
+const LEASE_KEY = "outbox-flush-lease";
+const LEASE_MS = 30_000;
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Ejecuta run solo si ninguna otra pestaña está reenviando; si no, no hace nada.
+async function withFlushLock(run: () => Promise<void>): Promise<void> {
+    if (typeof navigator !== "undefined" && navigator.locks) {
+        await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async (lock) => {
+            if (lock) await run();
+        });
+        return;
+    }
+
+    if (!acquireLease()) return;
+    // Renueva el arriendo mientras dure el reenvío.
+    const renew = setInterval(acquireLease, LEASE_MS / 3);
+    try {
+        await run();
+    } finally {
+        clearInterval(renew);
+        releaseLease();
+    }
+}
+
+function readLease(): { owner: string; expires: number } | null {
+    try {
+        return JSON.parse(localStorage.getItem(LEASE_KEY) ?? "null");
+    } catch {
+        return null;
+    }
+}
+
+function acquireLease(): boolean {
+    const lease = readLease();
+    if (lease && lease.owner !== tabId && lease.expires > Date.now()) return false;
+
+    localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: tabId, expires: Date.now() + LEASE_MS }));
+    // Si otra pestaña escribió a la vez, gana la última escritura.
+    return readLease()?.owner === tabId;
+}
+
+function releaseLease(): void {
+    if (readLease()?.owner === tabId) localStorage.removeItem(LEASE_KEY);
+}
+
+async function runFlush(token: string, userId: string): Promise<void> {
+    const store = useOutboxStore.getState();
+    // Lo guardado puede incluir lo que encolaron otras pestañas.
+    store.hydrateOutbox();
+    const pending = useOutboxStore.getState().items.filter((item) => item.userId === userId);
+
+    for (const item of pending) {
+        if (isOffline()) return;
+
+        try {
+            await replay(token, item);
+            store.removeItem(item.id);
+        } catch (err) {
+            // Sigue sin conexión, el servidor falla o la sesión expiró:
+            // se queda en la cola (y las siguientes también, para no
+            // cambiar el orden). Un timeout de una inscripción también: al
+            // reenviarla, un 409 dice que ya estaba hecha.
+            if (
+                isNetworkError(err) ||
+                (isTimeout(err) && item.kind === "registration") ||
+                (isApiError(err) &&
+                    (err.category === "server" || err.category === "unauthorized"))
+            ) {
+                return;
+            }
+
+            // Rechazo definitivo (o un post sin respuesta a tiempo: no
+            // sabemos si se creó): sale de la cola como conflicto.
+            store.removeItem(item.id);
+            store.addConflict({
+                id: item.id,
+                userId: item.userId,
+                label: describeItem(item),
+                message: getErrorMessage(
+                    err,
+                    {
+                        network: "No hubo respuesta a tiempo: revisa si ya se publicó antes de repetirlo.",
+                        not_found:
+                            item.kind === "registration"
+                                ? "El evento fue eliminado mientras estabas sin conexión."
+                                : "El recurso ya no existe.",
+                        forbidden: "Ya no tienes permiso para esta acción.",
+                    },
+                    "No se pudo sincronizar."
+                ),
+            });
+        }
+    }
+}
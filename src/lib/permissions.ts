@@ -0,0 +1,116 @@
+// src/lib/permissions.ts
+//
+// PERMISOS POR ROL (admin, organizer, attendee).
+//
+// Antes la única regla era "solo el creador edita / elimina su evento",
+// repetida a mano en cada página. Ahora todas las reglas viven aquí:
+//
+//   can(user, "event:update", event)  → true / false
+//
+// - admin:     puede todo (consola /admin, crear y eliminar usuarios,
+//              moderar posts y comentarios, editar, eliminar o reasignar
+//              cualquier evento, desinscribir a cualquiera).
+// - organizer: crea eventos y edita / elimina los suyos.
+// - attendee:  se inscribe a eventos y escribe en el feed.
+// Cualquier rol puede editar / eliminar sus propios posts, comentarios e
+// inscripciones y editar su propio perfil.
+//
+// Los roles solo se aplican si el backend los manda. El backend del parcial
+// no manda role: para un usuario sin role rigen las reglas de antes
+// (LEGACY_RULES): cualquier usuario autenticado crea eventos y usuarios, y
+// solo el creador edita / elimina su evento. Nada de administración.
+//
+// ¿Quién usa este archivo?
+// - NavBar                → qué enlaces mostrar.
+// - AdminPage (/admin)    → "admin:access" y las acciones de cada tabla.
+// - NewUserPage, UsersPage → "user:create".
+// - EventsPage            → "event:create" (formulario de nuevo evento).
+// - EventDetailPage       → "event:update" / "event:delete".
+// - PostDetailPage        → "post:delete"; CommentList → "comment:delete".
+// - Backend mock (api/mock) → las mismas reglas, para que la API responda
+//   403 en los mismos casos en que la UI oculta el botón.
+//
+// Sin React ni store: también corre en los route handlers del mock.
+
+import type { Comment, Event, Post, Registration, User, UserRole } from "./types";
+
+export const USER_ROLES: UserRole[] = ["admin", "organizer", "attendee"];
+
+// Rol por defecto al crear un usuario (formulario, CSV, backend mock).
+export const DEFAULT_ROLE: UserRole = "attendee";
+
+// Nombre legible de cada rol, para la UI.
+export const ROLE_LABELS: Record<UserRole, string> = {
+    admin: "Administrador",
+    organizer: "Organizador",
+    attendee: "Asistente",
+};
+
+// Cada acción con el tipo de recurso que necesita para decidir
+// (undefined = no depende de ningún recurso).
+interface ActionResources {
+    "admin:access": undefined;
+    "user:create": undefined;
+    "user:update": User;
+    "user:delete": User;
+    "event:create": undefined;
+    "event:update": Event;
+    "event:delete": Event;
+    "event:reassign": Event;
+    "registration:delete": Registration;
+    "post:update": Post;
+    "post:delete": Post;
+    "comment:update": Comment;
+    "comment:delete": Comment;
+}
+
+export type Action = keyof ActionResources;
+
+type Rule<A extends Action> = (user: User, resource: ActionResources[A]) => boolean;
+
+// Reglas para los roles que NO son admin (admin siempre puede).
+const RULES: { [A in Action]: Rule<A> } = {
+    "admin:access": () => false,
+    "user:create": () => false,
+    "user:update": (user, target) => target.userId === user.userId,
+    "user:delete": () => false,
+    "event:create": (user) => getRole(user) === "organizer",
+    "event:update": (user, event) =>
+        getRole(user) === "organizer" && event.createdBy === user.userId,
+    "event:delete": (user, event) =>
+        getRole(user) === "organizer" && event.createdBy === user.userId,
+    "event:reassign": () => false,
+    "registration:delete": (user, registration) => registration.userId === user.userId,
+    "post:update": (user, post) => post.author.userId === user.userId,
+    "post:delete": (user, post) => post.author.userId === user.userId,
+    "comment:update": (user, comment) => comment.author.userId === user.userId,
+    "comment:delete": (user, comment) => comment.author.userId === user.userId,
+};
+
+// Reglas para usuarios sin role (backend sin roles).
+const LEGACY_RULES: { [A in Action]: Rule<A> } = {
+    ...RULES,
+    "user:create": () => true,
+    "event:create": () => true,
+    "event:update": (user, event) => event.createdBy === user.userId,
+    "event:delete": (user, event) => event.createdBy === user.userId,
+};
+
+// Rol del usuario, o null si el backend no maneja roles (no lo mandó).
+export function getRole(user: Pick<User, "role"> | null | undefined): UserRole | null {
+    return user?.role ?? null;
+}
+
+// true si user puede hacer action (sobre resource, si la acción lo necesita).
+// Sin usuario nunca se puede nada.
+export function can<A extends Action>(
+    user: User | null | undefined,
+    action: A,
+    ...[resource]: ActionResources[A] extends undefined ? [] : [ActionResources[A]]
+): boolean {
+    if (!user) return false;
+    const role = getRole(user);
+    if (role === "admin") return true;
+    const rules = role ? RULES : LEGACY_RULES;
+    return (rules[action] as Rule<A>)(user, resource as ActionResources[A]);
+}
@@ -0,0 +1,748 @@
+// src/lib/queries.ts
+//
+// HOOKS DE DATOS + MUTACIONES CON INVALIDACIÓN (sobre queryCache.ts).
+//
+// Las páginas ya no cargan con useEffect a mano: usan estos hooks, que leen
+// el token del store y comparten la caché entre páginas. Cada consulta le
+// pasa a api.ts el AbortSignal de la caché: al salir de la página (o cambiar
+// de eventId / postId) la petición pendiente se cancela.
+//
+// Claves:
+//   ["events", query]                → página de eventos (EventsQuery)
+//   ["event", eventId]               → detalle de un evento
+//   ["registrations", { eventId }]   → inscripciones de un evento
+//   ["registrations", { userId }]    → inscripciones de un usuario
+//   ["registrations", {}]            → todas las inscripciones (admin)
+//   ["posts"]                        → feed de posts
+//   ["post", postId]                 → detalle de un post
+//   ["comments", { postId }]         → comentarios de un post
+//   ["users"]                        → directorio de usuarios
+//   ["user", userId]                 → perfil público de un usuario
+//   ["calendarFeed"]                 → URL del feed de calendario propio
+//
+// Las mutaciones (createEvent, updateEvent, ...) llaman a api.ts y, si la
+// API responde OK, actualizan / invalidan las claves afectadas. Los
+// componentes que crean o editan datos deben usarlas en vez de llamar a
+// api.ts directamente; si no, las demás páginas no se enteran del cambio.
+//
+// createEvent, updateEvent, createRegistration, createPost y createComment
+// además son OPTIMISTAS (optimistic.ts): el cambio se ve al instante con un
+// id temporal y, si la API falla, se deshace con un aviso de error. Por eso
+// los mensajes de error de esas acciones viven aquí. createRegistration y
+// createPost, si no hay conexión, quedan en la bandeja de salida (outbox.ts).
+//
+// ¿Quién usa este archivo?
+// - EventsPage       → useEvents (EventExportButtons → fetchEvents)
+// - EventDetailPage  → useEvent, useEventRegistrations
+// - ProfilePage      → useEvents, useUserRegistrations, useEventRegistrations
+// - UsersPage        → useUsers
+// - UserDetailPage   → useUser, useEvents, useUserRegistrations
+// - EventItem        → useUsers (nombre del creador)
+// - AdminPage        → useUsers, useEvents, useRegistrations, deleteUsers,
+//                      deleteEvents, deleteRegistrations, reassignEvent
+// - ProfileForm      → updateProfile
+// - CalendarFeedSection → useCalendarFeed, createCalendarFeed, revokeCalendarFeed
+// - UserCsvImport    → createUsers
+// - FeedPage         → usePosts
+// - PostDetailPage   → usePost, usePostComments
+// - EventForm        → createEvent, updateEvent
+// - DeleteEventButton→ deleteEvent
+// - RegisterButton   → createRegistration, deleteRegistration
+// - NewPostForm      → createPost
+// - NewCommentForm   → createComment
+// - DeletePostButton → deletePost
+// - DeleteCommentButton → deleteComment
+
+"use client";
+
+import { useAuthStore } from "@/store/authStore";
+import {
+    createCommentApi,
+    createEventApi,
+    createPostApi,
+    createRegistrationApi,
+    createUserApi,
+    deleteCommentApi,
+    deleteEventApi,
+    deletePostApi,
+    deleteUserApi,
+    deleteRegistrationApi,
+    getCommentsByPostApi,
+    getEventByIdApi,
+    getEventsApi,
+    getPostByIdApi,
+    getPostsApi,
+    getRegistrationsApi,
+    getRegistrationsByEventApi,
+    getRegistrationsByUserApi,
+    getUserByIdApi,
+    getUsersApi,
+    reassignEventApi,
+    updateEventApi,
+    updateUserApi,
+} from "./api";
+import {
+    createCalendarFeedApi,
+    getCalendarFeedApi,
+    revokeCalendarFeedApi,
+} from "./calendarFeed";
+import { getErrorMessage, isApiError } from "./errors";
+import {
+    createTempId,
+    createTempNumericId,
+    optimisticAppend,
+    isTempId,
+    optimisticUpdate,
+    runOptimistic,
+} from "./optimistic";
+import { sendOrQueue } from "./outbox";
+import { primeUserCache } from "./userDirectory";
+import {
+    invalidateQueries,
+    removeQueries,
+    fetchQuery,
+    setQueriesData,
+    setQueryData,
+    useQuery,
+    type QueryOptions,
+} from "./queryCache";
+import type {
+    Author,
+    Comment,
+    Event,
+    EventsQuery,
+    Paginated,
+    Post,
+    Registration,
+    User,
+} from "./types";
+
+type EventInput = Parameters<typeof createEventApi>[1];
+type UserInput = Parameters<typeof createUserApi>[1];
+
+///////////////////////
+// CLAVES
+///////////////////////
+
+export const queryKeys = {
+    events: (query: EventsQuery = {}) => ["events", query] as const,
+    event: (eventId: string) => ["event", eventId] as const,
+    eventRegistrations: (eventId: string) => ["registrations", { eventId }] as const,
+    userRegistrations: (userId: string) => ["registrations", { userId }] as const,
+    registrations: () => ["registrations", {}] as const,
+    posts: () => ["posts"] as const,
+    post: (postId: number) => ["post", postId] as const,
+    postComments: (postId: number) => ["comments", { postId }] as const,
+    users: () => ["users"] as const,
+    user: (userId: string) => ["user", userId] as const,
+    calendarFeed: () => ["calendarFeed"] as const,
+};
+
+///////////////////////
+// HOOKS
+///////////////////////
+
+// Página de eventos con filtros / orden / paginación.
+// Sin page ni pageSize el backend devuelve todos (ProfilePage).
+export function useEvents(query: EventsQuery = {}, options?: QueryOptions) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token ? queryKeys.events(query) : null,
+        (signal) => getEventsApi(token!, query, { signal }),
+        options
+    );
+}
+
+// Lo mismo fuera de React, para exportar: sin page / pageSize el backend
+// devuelve todos los eventos que cumplen los filtros. Comparte la caché
+// con useEvents(query).
+export function fetchEvents(token: string, query: EventsQuery): Promise<Paginated<Event>> {
+    return fetchQuery(queryKeys.events(query), (signal) => getEventsApi(token, query, { signal }));
+}
+
+// Detalle de un evento.
+export function useEvent(eventId: string | null) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token && eventId ? queryKeys.event(eventId) : null,
+        (signal) => getEventByIdApi(token!, eventId!, { signal })
+    );
+}
+
+// Inscripciones de un evento. eventId = null desactiva la consulta.
+export function useEventRegistrations(eventId: string | null) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token && eventId ? queryKeys.eventRegistrations(eventId) : null,
+        (signal) => getRegistrationsByEventApi(token!, eventId!, { signal })
+    );
+}
+
+// Inscripciones de un usuario.
+export function useUserRegistrations(userId: string | null) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token && userId ? queryKeys.userRegistrations(userId) : null,
+        (signal) => getRegistrationsByUserApi(token!, userId!, { signal })
+    );
+}
+
+// Todas las inscripciones (GET /registrations, sin filtros). Solo la usa
+// la consola de administración.
+export function useRegistrations() {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token ? queryKeys.registrations() : null,
+        (signal) => getRegistrationsApi(token!, { signal })
+    );
+}
+
+// Feed de posts.
+export function usePosts() {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token ? queryKeys.posts() : null,
+        (signal) => getPostsApi(token!, { signal })
+    );
+}
+
+// Detalle de un post.
+export function usePost(postId: number | null) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token && postId !== null ? queryKeys.post(postId) : null,
+        (signal) => getPostByIdApi(token!, postId!, { signal })
+    );
+}
+
+// Comentarios de un post.
+export function usePostComments(postId: number | null) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token && postId !== null ? queryKeys.postComments(postId) : null,
+        (signal) => getCommentsByPostApi(token!, postId!, { signal })
+    );
+}
+
+// Todos los usuarios (GET /users). El backend no filtra ni pagina: eso lo
+// hace UsersPage en el cliente. De paso llena la caché de userDirectory,
+// así resolveUsers ya no tiene que pedirlos.
+export function useUsers() {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token ? queryKeys.users() : null,
+        async (signal) => {
+            const users = await getUsersApi(token!, { signal });
+            primeUserCache(users);
+            return users;
+        }
+    );
+}
+
+// Perfil público de un usuario.
+export function useUser(userId: string | null) {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token && userId ? queryKeys.user(userId) : null,
+        (signal) => getUserByIdApi(token!, userId!, { signal })
+    );
+}
+
+// URL del feed de calendario del usuario actual (null si no tiene).
+export function useCalendarFeed() {
+    const token = useAuthStore((state) => state.token);
+    return useQuery(
+        token ? queryKeys.calendarFeed() : null,
+        (signal) => getCalendarFeedApi(token!, signal)
+    );
+}
+
+///////////////////////
+// MUTACIONES
+///////////////////////
+
+const byRegId = (reg: Registration) => reg.regId;
+const byCommentId = (comment: Comment) => comment.id;
+const byPostId = (post: Post) => post.id;
+
+// Cambio optimista sobre TODAS las páginas de eventos en caché (["events", ...]).
+function updateEventPages(
+    update: (items: Event[]) => Event[],
+    totalDelta = 0
+): (page: Paginated<Event>) => Paginated<Event> {
+    return (page) => ({
+        ...page,
+        items: update(page.items),
+        total: page.total + totalDelta,
+    });
+}
+
+// POST /events (optimista).
+//
+// El evento temporal se pone arriba de cada página de eventos en caché,
+// aunque no cumpla los filtros de esa página: al responder el backend se
+// invalidan los listados y cada uno queda como debe.
+export async function createEvent(
+    token: string,
+    data: EventInput,
+    createdBy: string
+): Promise<Event> {
+    const tempEvent: Event = {
+        ...data,
+        eventId: createTempId(),
+        createdBy,
+        participantsCount: 0,
+    };
+
+    const event = await runOptimistic<Event>({
+        changes: [
+            optimisticUpdate<Paginated<Event>, Event>(["events"], {
+                apply: updateEventPages((items) => [tempEvent, ...items], 1),
+                commit: (page, result) =>
+                    updateEventPages((items) =>
+                        items.map((item) => (item.eventId === tempEvent.eventId ? result : item))
+                    )(page),
+                rollback: updateEventPages(
+                    (items) => items.filter((item) => item.eventId !== tempEvent.eventId),
+                    -1
+                ),
+            }),
+        ],
+        mutate: () => createEventApi(token, data),
+        errorMessage: (err) =>
+            getErrorMessage(
+                err,
+                { forbidden: "Solo organizadores y administradores pueden crear eventos." },
+                "No se pudo crear el evento."
+            ),
+    });
+
+    setQueryData(queryKeys.event(event.eventId), event);
+    invalidateQueries(["events"]);
+    return event;
+}
+
+// PUT /events/{id} (optimista).
+//
+// Los cambios se ven al instante en el detalle y en los listados; si el
+// backend lo rechaza (ej. 403, no eres el creador) se restaura el evento
+// anterior. Después se invalidan los listados (puede cambiar de ciudad,
+// fecha, orden...).
+export async function updateEvent(
+    token: string,
+    eventId: string,
+    data: EventInput
+): Promise<Event> {
+    // Campos editables antes del cambio, para poder deshacer. Son los mismos
+    // en el detalle y en los listados (participantsCount no se toca).
+    let previousFields: EventInput | null = null;
+
+    const edit = (event: Event): Event => {
+        if (event.eventId !== eventId) return event;
+        previousFields ??= {
+            name: event.name,
+            description: event.description,
+            date: event.date,
+            city: event.city,
+            capacity: event.capacity,
+        };
+        return { ...event, ...data };
+    };
+    const restore = (event: Event): Event =>
+        event.eventId === eventId && previousFields ? { ...event, ...previousFields } : event;
+    const reconcile = (event: Event, result: Event): Event =>
+        event.eventId === eventId ? { ...event, ...result } : event;
+
+    const event = await runOptimistic<Event>({
+        changes: [
+            optimisticUpdate<Event, Event>(queryKeys.event(eventId), {
+                apply: edit,
+                commit: reconcile,
+                rollback: restore,
+            }),
+            optimisticUpdate<Paginated<Event>, Event>(["events"], {
+                apply: updateEventPages((items) => items.map(edit)),
+                commit: (page, result) =>
+                    updateEventPages((items) => items.map((item) => reconcile(item, result)))(page),
+                rollback: updateEventPages((items) => items.map(restore)),
+            }),
+        ],
+        mutate: () => updateEventApi(token, eventId, data),
+        errorMessage: (err) =>
+            getErrorMessage(
+                err,
+                {
+                    forbidden: "Solo el creador o un administrador puede editar este evento.",
+                    not_found: "El evento ya no existe.",
+                },
+                "No se pudo guardar el evento."
+            ),
+    });
+
+    invalidateQueries(["events"]);
+    invalidateQueries(queryKeys.event(eventId));
+    return event;
+}
+
+// DELETE /events/{id}
+export async function deleteEvent(token: string, eventId: string): Promise<void> {
+    await deleteEventApi(token, eventId);
+    removeQueries(queryKeys.event(eventId));
+    removeQueries(queryKeys.eventRegistrations(eventId));
+    invalidateQueries(["events"]);
+    // El backend borra también sus inscripciones.
+    invalidateQueries(["registrations"]);
+}
+
+// POST /registrations (optimista, con bandeja de salida).
+//
+// La inscripción temporal se agrega a las listas del evento y del usuario
+// (si están en caché); al responder se reemplaza por la real y se
+// invalida para confirmar con el backend. participantsCount del evento
+// también cambia.
+export async function createRegistration(
+    token: string,
+    data: { eventId: string; userId: string }
+): Promise<Registration> {
+    const tempRegistration: Registration = {
+        ...data,
+        regId: createTempId(),
+        registeredAt: new Date().toISOString(),
+    };
+
+    const registration = await runOptimistic<Registration>({
+        changes: [
+            optimisticAppend(queryKeys.eventRegistrations(data.eventId), tempRegistration, byRegId),
+            optimisticAppend(queryKeys.userRegistrations(data.userId), tempRegistration, byRegId),
+        ],
+        // Sin conexión queda en la bandeja de salida (outbox.ts) y la
+        // inscripción temporal sigue en pantalla como pendiente.
+        mutate: () =>
+            sendOrQueue(
+                () => createRegistrationApi(token, data),
+                { kind: "registration", userId: data.userId, data },
+                tempRegistration
+            ),
+        errorMessage: (err) =>
+            getErrorMessage(
+                err,
+                {
+                    conflict: "Ya estás inscrito en este evento.",
+                    not_found: "El evento ya no existe.",
+                },
+                "No se pudo registrar al evento."
+            ),
+    });
+
+    // Encolada: no invalidamos, el backend todavía no la tiene.
+    if (isTempId(registration.regId)) return registration;
+
+    invalidateQueries(["registrations"]);
+    invalidateQueries(["events"]);
+    invalidateQueries(queryKeys.event(data.eventId));
+    return registration;
+}
+
+// DELETE /registrations/{regId} → lo mismo, quitando la inscripción.
+export async function deleteRegistration(
+    token: string,
+    registration: Registration
+): Promise<void> {
+    await deleteRegistrationApi(token, registration.regId);
+
+    const remove = (prev: Registration[] | undefined) =>
+        prev?.filter((reg) => reg.regId !== registration.regId);
+    setQueryData(queryKeys.eventRegistrations(registration.eventId), remove);
+    setQueryData(queryKeys.userRegistrations(registration.userId), remove);
+
+    invalidateQueries(["registrations"]);
+    invalidateQueries(["events"]);
+    invalidateQueries(queryKeys.event(registration.eventId));
+}
+
+// POST /posts/{id}/comments (optimista).
+//
+// El comentario temporal (id negativo) aparece al final de la lista con el
+// usuario actual como autor; al responder se reemplaza por el real.
+export async function createComment(
+    token: string,
+    postId: number,
+    data: { body: string },
+    author: Author
+): Promise<Comment> {
+    const tempComment: Comment = {
+        id: createTempNumericId(),
+        postId,
+        body: data.body,
+        author,
+        createdAt: new Date().toISOString(),
+    };
+
+    const comment = await runOptimistic<Comment>({
+        changes: [
+            optimisticAppend(queryKeys.postComments(postId), tempComment, byCommentId),
+        ],
+        mutate: () => createCommentApi(token, postId, data),
+        errorMessage: (err) =>
+            getErrorMessage(err, { not_found: "El post ya no existe." }, "No se pudo crear el comentario."),
+    });
+
+    invalidateQueries(queryKeys.postComments(postId));
+    return comment;
+}
+
+// POST /posts (optimista, con bandeja de salida).
+//
+// El post temporal (id negativo) aparece arriba del feed con el usuario
+// actual como autor. Sin conexión queda en la bandeja de salida; un timeout
+// no (el post pudo crearse): se avisa y se refresca el feed.
+export async function createPost(
+    token: string,
+    data: { title: string; body: string },
+    author: Author
+): Promise<Post> {
+    const tempPost: Post = {
+        id: createTempNumericId(),
+        title: data.title,
+        body: data.body,
+        author,
+        createdAt: new Date().toISOString(),
+    };
+
+    const post = await runOptimistic<Post>({
+        changes: [
+            optimisticUpdate<Post[], Post>(queryKeys.posts(), {
+                apply: (prev) => [tempPost, ...prev],
+                commit: (prev, result) =>
+                    prev.map((item) => (byPostId(item) === tempPost.id ? result : item)),
+                rollback: (prev) => prev.filter((item) => byPostId(item) !== tempPost.id),
+            }),
+        ],
+        mutate: () =>
+            sendOrQueue(
+                () => createPostApi(token, data),
+                { kind: "post", userId: author.userId, data },
+                tempPost
+            ),
+        errorMessage: (err) =>
+            isApiError(err) && err.timedOut
+                ? "No hubo respuesta a tiempo: revisa el feed antes de volver a publicarlo."
+                : getErrorMessage(err, {}, "No se pudo crear el post."),
+    }).catch((err: unknown) => {
+        if (isApiError(err) && err.timedOut) invalidateQueries(queryKeys.posts());
+        throw err;
+    });
+
+    if (!isTempId(post.id)) invalidateQueries(queryKeys.posts());
+    return post;
+}
+
+// DELETE /posts/{id} (autor o admin). El backend borra también sus
+// comentarios, así que quitamos ambas claves y refrescamos el feed.
+export async function deletePost(token: string, postId: number): Promise<void> {
+    await deletePostApi(token, postId);
+
+    setQueryData<Post[]>(queryKeys.posts(), (prev) =>
+        prev?.filter((post) => post.id !== postId)
+    );
+    removeQueries(queryKeys.post(postId));
+    removeQueries(queryKeys.postComments(postId));
+    invalidateQueries(queryKeys.posts());
+}
+
+// DELETE /comments/{id} (autor o admin).
+export async function deleteComment(token: string, comment: Comment): Promise<void> {
+    await deleteCommentApi(token, comment.id);
+
+    setQueryData<Comment[]>(queryKeys.postComments(comment.postId), (prev) =>
+        prev?.filter((item) => item.id !== comment.id)
+    );
+}
+
+// PATCH /users/{id} (perfil propio, no optimista).
+//
+// Al responder deja al usuario actualizado en su detalle, en el directorio
+// y en userDirectory (nombres de asistentes). authStore lo actualiza
+// ProfileForm con updateUser.
+export async function updateProfile(
+    token: string,
+    userId: string,
+    changes: Parameters<typeof updateUserApi>[2]
+): Promise<User> {
+    const user = await updateUserApi(token, userId, changes);
+
+    setQueryData<User>(queryKeys.user(userId), user);
+    setQueriesData<User[]>(queryKeys.users(), (prev) =>
+        prev?.map((item) => (item.userId === userId ? user : item))
+    );
+    primeUserCache([user]);
+
+    return user;
+}
+
+// Crea o regenera el enlace del feed de calendario: el anterior deja de servir.
+export async function createCalendarFeed(token: string): Promise<string> {
+    const url = await createCalendarFeedApi(token);
+    setQueryData(queryKeys.calendarFeed(), url);
+    return url;
+}
+
+// Revoca el enlace del feed de calendario.
+export async function revokeCalendarFeed(token: string): Promise<void> {
+    await revokeCalendarFeedApi(token);
+    setQueryData<string | null>(queryKeys.calendarFeed(), null);
+}
+
+///////////////////////
+// ADMINISTRACIÓN (acciones en lote)
+///////////////////////
+
+// Resultado de una acción en lote: qué salió bien y qué falló (con su error,
+// para que la consola explique por qué).
+export interface BulkResult<T> {
+    succeeded: T[];
+    failed: { item: T; error: unknown }[];
+}
+
+// Opciones de runBulk / createUsers.
+export interface BulkOptions {
+    concurrency?: number;
+    onSettled?: (done: number, total: number) => void;
+}
+
+// Ejecuta action para cada item sin cortar en el primer error, con a lo
+// sumo `concurrency` llamadas en vuelo a la vez (por defecto, todas juntas).
+// onSettled se llama cada vez que un item termina (para mostrar progreso).
+// La caché se toca UNA vez al final (en quien llama), no por cada item: si
+// se invalidara en cada paso, un refresco en vuelo podría traer datos de
+// antes del último DELETE.
+async function runBulk<T>(
+    items: T[],
+    action: (item: T) => Promise<unknown>,
+    { concurrency = items.length, onSettled }: BulkOptions = {}
+): Promise<BulkResult<T>> {
+    const outcomes: PromiseSettledResult<unknown>[] = new Array(items.length);
+    let next = 0;
+    let done = 0;
+
+    // Cada "worker" toma el siguiente item libre hasta que no quedan.
+    async function worker() {
+        while (next < items.length) {
+            const i = next++;
+            try {
+                outcomes[i] = { status: "fulfilled", value: await action(items[i]) };
+            } catch (reason) {
+                outcomes[i] = { status: "rejected", reason };
+            }
+            onSettled?.(++done, items.length);
+        }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+
+    const result: BulkResult<T> = { succeeded: [], failed: [] };
+    outcomes.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") result.succeeded.push(items[i]);
+        else result.failed.push({ item: items[i], error: outcome.reason });
+    });
+    return result;
+}
+
+// Resumen para la UI: "2 eliminados. 1 falló: <motivo>".
+// Si todos fallan por lo mismo, el motivo se muestra una sola vez.
+export function describeBulkResult<T>(
+    result: BulkResult<T>,
+    doneLabel: string,
+    errorMessage: (error: unknown) => string
+): string {
+    const parts: string[] = [];
+    if (result.succeeded.length) parts.push(`${result.succeeded.length} ${doneLabel}.`);
+    if (result.failed.length) {
+        const reasons = Array.from(new Set(result.failed.map((f) => errorMessage(f.error))));
+        const count = result.failed.length;
+        parts.push(`${count} ${count === 1 ? "falló" : "fallaron"}: ${reasons.join(" / ")}`);
+    }
+    return parts.join(" ");
+}
+
+// DELETE /users/{id} para cada userId (solo admin).
+export async function deleteUsers(token: string, userIds: string[]): Promise<BulkResult<string>> {
+    const result = await runBulk(userIds, (userId) => deleteUserApi(token, userId));
+
+    if (result.succeeded.length) {
+        setQueryData<User[]>(queryKeys.users(), (prev) =>
+            prev?.filter((user) => !result.succeeded.includes(user.userId))
+        );
+        result.succeeded.forEach((userId) => removeQueries(queryKeys.user(userId)));
+        invalidateQueries(queryKeys.users());
+        // El backend borra también sus inscripciones.
+        invalidateQueries(["registrations"]);
+        invalidateQueries(["events"]);
+    }
+    return result;
+}
+
+// DELETE /events/{id} para cada eventId (creador o admin).
+export async function deleteEvents(token: string, eventIds: string[]): Promise<BulkResult<string>> {
+    const result = await runBulk(eventIds, (eventId) => deleteEventApi(token, eventId));
+
+    if (result.succeeded.length) {
+        result.succeeded.forEach((eventId) => {
+            removeQueries(queryKeys.event(eventId));
+            removeQueries(queryKeys.eventRegistrations(eventId));
+        });
+        invalidateQueries(["events"]);
+        invalidateQueries(["registrations"]);
+    }
+    return result;
+}
+
+// DELETE /registrations/{regId} para cada inscripción: desinscripción
+// forzada desde la consola (admin).
+export async function deleteRegistrations(
+    token: string,
+    registrations: Registration[]
+): Promise<BulkResult<Registration>> {
+    const result = await runBulk(registrations, (reg) => deleteRegistrationApi(token, reg.regId));
+
+    if (result.succeeded.length) {
+        const removed = new Set(result.succeeded.map(byRegId));
+        setQueriesData<Registration[]>(["registrations"], (prev) =>
+            prev?.filter((reg) => !removed.has(reg.regId))
+        );
+        invalidateQueries(["registrations"]);
+        invalidateQueries(["events"]);
+        invalidateQueries(["event"]);
+    }
+    return result;
+}
+
+// PATCH /events/{id} { createdBy } (solo admin).
+export async function reassignEvent(token: string, eventId: string, createdBy: string): Promise<Event> {
+    const event = await reassignEventApi(token, eventId, createdBy);
+
+    setQueryData(queryKeys.event(eventId), event);
+    invalidateQueries(["events"]);
+    return event;
+}
+
+// POST /users para cada usuario (alta masiva desde CSV, solo admin).
+// Con concurrencia limitada para no disparar cientos de peticiones a la vez.
+export async function createUsers<T extends UserInput>(
+    token: string,
+    users: T[],
+    options: BulkOptions = {}
+): Promise<BulkResult<T>> {
+    const created: User[] = [];
+    const result = await runBulk(
+        users,
+        async (data) => created.push(await createUserApi(token, data)),
+        { concurrency: 4, ...options }
+    );
+
+    if (created.length) {
+        primeUserCache(created);
+        setQueryData<User[]>(queryKeys.users(), (prev) => (prev ? [...prev, ...created] : prev));
+        invalidateQueries(queryKeys.users());
+    }
+    return result;
+}
@@ -0,0 +1,389 @@
+// src/lib/queryCache.ts
+//
+// CACHÉ DE CONSULTAS COMPARTIDA ENTRE PÁGINAS.
+//
+// Problema: cada página cargaba sus datos con su propio useEffect, así que
+// ir de /events a /events/E001 y volver pedía todo otra vez, y dos
+// componentes que necesitaban lo mismo hacían dos peticiones.
+//
+// Solución (al estilo de React Query, pero mínima):
+// - Cada consulta se identifica con una clave, ej. ["events", filtros] o
+//   ["registrations", { eventId }]. El orden de las propiedades de los
+//   objetos no importa.
+// - Peticiones en vuelo compartidas: misma clave → una sola llamada.
+// - Stale-while-revalidate: si hay datos en caché se muestran al instante y,
+//   si ya están viejos (staleTime), se vuelven a pedir por detrás.
+// - Al volver a la pestaña (focus / visibilitychange) se refrescan las
+//   consultas viejas que algún componente esté mostrando.
+// - invalidateQueries(prefijo) marca como viejas las consultas cuya clave
+//   empieza por el prefijo y refresca las que están en pantalla.
+// - Cancelación: el fetcher recibe un AbortSignal. Si el último componente
+//   que mostraba una clave se desmonta (o cambia de clave, ej. otro
+//   eventId) con la petición en vuelo, se cancela y no se guarda nada.
+//
+// Este archivo no sabe nada de eventos ni de la API: las claves y los
+// hooks concretos (useEvents, useEvent, ...) están en queries.ts.
+//
+// ¿Quién usa este archivo?
+// - queries.ts   → useQuery, invalidateQueries, setQueryData, removeQueries.
+// - optimistic.ts → setQueriesData.
+// - authStore     → clearQueryCache (en logout y al cambiar de sesión en
+//                   otra pestaña).
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+
+// Tiempo que un dato se considera fresco (no se vuelve a pedir).
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+    data: T | undefined;
+    error: unknown;
+    updatedAt: number; // 0 = nunca se cargó
+    isFetching: boolean;
+}
+
+interface CacheEntry {
+    key: QueryKey;
+    state: QueryState<unknown>;
+    // Último fetcher registrado por un hook; se usa para refrescar por
+    // focus o invalidación sin que el componente tenga que hacer nada.
+    fetcher: ((signal: AbortSignal) => Promise<unknown>) | null;
+    staleTime: number;
+    invalidated: boolean;
+    promise: Promise<unknown> | null;
+    controller: AbortController | null; // de la petición en vuelo
+    listeners: Set<() => void>;
+}
+
+const EMPTY_STATE: QueryState<never> = {
+    data: undefined,
+    error: null,
+    updatedAt: 0,
+    isFetching: false,
+};
+
+const cache = new Map<string, CacheEntry>();
+
+///////////////////////
+// CLAVES
+///////////////////////
+
+// Serializa la clave de forma estable: objetos con propiedades ordenadas y
+// sin las que valen undefined. { a: 1, b: undefined } === { a: 1 }.
+export function hashQueryKey(key: QueryKey): string {
+    return JSON.stringify(key, (_, value: unknown) => {
+        if (value && typeof value === "object" && !Array.isArray(value)) {
+            const source = value as Record<string, unknown>;
+            return Object.fromEntries(
+                Object.keys(source)
+                    .sort()
+                    .filter((k) => source[k] !== undefined)
+                    .map((k) => [k, source[k]])
+            );
+        }
+        return value;
+    });
+}
+
+// true si key empieza por prefix (comparando cada parte serializada).
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+    if (prefix.length > key.length) return false;
+    return prefix.every((part, i) => hashQueryKey([part]) === hashQueryKey([key[i]]));
+}
+
+function ensureEntry(hash: string): CacheEntry {
+    let entry = cache.get(hash);
+    if (!entry) {
+        entry = {
+            key: JSON.parse(hash) as QueryKey,
+            state: EMPTY_STATE,
+            fetcher: null,
+            staleTime: DEFAULT_STALE_TIME_MS,
+            invalidated: false,
+            promise: null,
+            controller: null,
+            listeners: new Set(),
+        };
+        cache.set(hash, entry);
+    }
+    return entry;
+}
+
+// Reemplaza el estado (objeto nuevo para que useSyncExternalStore lo note)
+// y avisa a los componentes suscritos.
+function setState(entry: CacheEntry, patch: Partial<QueryState<unknown>>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+}
+
+function isStale(entry: CacheEntry): boolean {
+    return (
+        entry.invalidated ||
+        entry.state.updatedAt === 0 ||
+        Date.now() - entry.state.updatedAt > entry.staleTime
+    );
+}
+
+///////////////////////
+// PETICIONES
+///////////////////////
+
+// Lanza el fetcher de la entrada, o devuelve la petición en vuelo si ya hay una.
+function runFetch(entry: CacheEntry): Promise<unknown> {
+    if (entry.promise) return entry.promise;
+    if (!entry.fetcher) return Promise.resolve(entry.state.data);
+
+    setState(entry, { isFetching: true });
+
+    const controller = new AbortController();
+
+    const promise = entry.fetcher(controller.signal)
+        .then((data) => {
+            // La caché se vació mientras tanto: esta respuesta ya no vale.
+            if (entry.promise !== promise) return data;
+            entry.invalidated = false;
+            setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+            return data;
+        })
+        .catch((err: unknown) => {
+            // Cancelada: nadie la está mirando, no es un error que guardar.
+            // Los datos anteriores (si había) se conservan en ambos casos: la
+            // UI decide si muestra el error o sigue con lo que tenía.
+            if (entry.promise !== promise) throw err;
+            setState(
+                entry,
+                controller.signal.aborted
+                    ? { isFetching: false }
+                    : { error: err, isFetching: false }
+            );
+            throw err;
+        })
+        .finally(() => {
+            if (entry.promise === promise) {
+                entry.promise = null;
+                entry.controller = null;
+            }
+        });
+
+    entry.promise = promise;
+    entry.controller = controller;
+    return promise;
+}
+
+// Pide (o reutiliza) los datos de una clave fuera de React.
+export function fetchQuery<T>(
+    key: QueryKey,
+    fetcher: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const entry = ensureEntry(hashQueryKey(key));
+    entry.fetcher = fetcher;
+    return runFetch(entry) as Promise<T>;
+}
+
+// Refresca las consultas en pantalla que estén viejas.
+function refetchActiveStale(): void {
+    cache.forEach((entry) => {
+        if (entry.listeners.size > 0 && isStale(entry)) {
+            runFetch(entry).catch(() => undefined);
+        }
+    });
+}
+
+// Escuchamos focus / visibilitychange una sola vez, al primer suscriptor
+// (así el módulo se puede importar en el servidor sin tocar window).
+let focusListening = false;
+
+function listenToFocus(): void {
+    if (focusListening || typeof window === "undefined") return;
+    focusListening = true;
+
+    window.addEventListener("focus", refetchActiveStale);
+    document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible") refetchActiveStale();
+    });
+}
+
+///////////////////////
+// LECTURA / ESCRITURA DIRECTA
+///////////////////////
+
+export function getQueryData<T>(key: QueryKey): T | undefined {
+    return cache.get(hashQueryKey(key))?.state.data as T | undefined;
+}
+
+// Escribe datos en la caché sin pedir nada (ej. agregar la inscripción
+// recién creada). Si updater devuelve undefined no se toca la entrada.
+export function setQueryData<T>(
+    key: QueryKey,
+    updater: T | ((prev: T | undefined) => T | undefined)
+): void {
+    const entry = ensureEntry(hashQueryKey(key));
+    const prev = entry.state.data as T | undefined;
+    const next =
+        typeof updater === "function"
+            ? (updater as (prev: T | undefined) => T | undefined)(prev)
+            : updater;
+    if (next === undefined) return;
+
+    setState(entry, { data: next, error: null, updatedAt: Date.now() });
+}
+
+// Como setQueryData, pero sobre TODAS las consultas en caché cuya clave
+// empieza por prefix (ej. todas las páginas de ["events"]). No crea entradas.
+export function setQueriesData<T>(
+    prefix: QueryKey,
+    updater: (prev: T | undefined) => T | undefined
+): void {
+    cache.forEach((entry) => {
+        if (!matchesPrefix(entry.key, prefix)) return;
+        const next = updater(entry.state.data as T | undefined);
+        if (next === undefined) return;
+        setState(entry, { data: next, error: null, updatedAt: Date.now() });
+    });
+}
+
+// Marca como viejas las consultas cuya clave empieza por prefix y refresca
+// ya las que algún componente está mostrando. Las demás se piden la
+// próxima vez que se monten.
+export function invalidateQueries(prefix: QueryKey): void {
+    cache.forEach((entry) => {
+        if (!matchesPrefix(entry.key, prefix)) return;
+        entry.invalidated = true;
+        if (entry.listeners.size > 0) {
+            runFetch(entry).catch(() => undefined);
+        }
+    });
+}
+
+// Borra las consultas cuya clave empieza por prefix (ej. un evento eliminado).
+export function removeQueries(prefix: QueryKey): void {
+    cache.forEach((entry, hash) => {
+        if (matchesPrefix(entry.key, prefix) && entry.listeners.size === 0) {
+            cache.delete(hash);
+        }
+    });
+}
+
+// Vacía la caché (al cerrar sesión o cambiar de cuenta, para no mezclar
+// datos entre cuentas). Las consultas sin componentes se borran; las que
+// están en pantalla se quedan vacías (sus componentes vuelven a "cargando")
+// y se vuelven a pedir. Eso ocurre en el siguiente tick: para entonces los
+// componentes ya se renderizaron con la sesión nueva y su fetcher usa el
+// token nuevo (o dejaron de suscribirse si ya no hay sesión).
+export function clearQueryCache(): void {
+    cache.forEach((entry, hash) => {
+        entry.controller?.abort();
+        entry.promise = null;
+        entry.controller = null;
+
+        if (entry.listeners.size === 0) {
+            cache.delete(hash);
+            return;
+        }
+
+        entry.invalidated = true;
+        setState(entry, EMPTY_STATE);
+    });
+
+    setTimeout(refetchActiveStale, 0);
+}
+
+///////////////////////
+// HOOK
+///////////////////////
+
+export interface QueryOptions {
+    staleTime?: number;
+    // Mientras carga una clave nueva, seguir mostrando los datos de la
+    // anterior (ej. al cambiar de página en /events, sin parpadeo).
+    keepPreviousData?: boolean;
+}
+
+export interface QueryResult<T> {
+    data: T | undefined;
+    error: unknown;
+    isLoading: boolean;  // todavía no hay datos que mostrar
+    isFetching: boolean; // hay una petición en curso (también al revalidar)
+    refetch: () => Promise<void>;
+}
+
+// Suscribe el componente a una clave. key = null desactiva la consulta
+// (ej. todavía no hay token). El fetcher recibe un AbortSignal que hay que
+// pasarle a api.ts ({ signal }) para que la cancelación funcione.
+export function useQuery<T>(
+    key: QueryKey | null,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    options: QueryOptions = {}
+): QueryResult<T> {
+    const { staleTime = DEFAULT_STALE_TIME_MS, keepPreviousData = false } = options;
+
+    const hash = key ? hashQueryKey(key) : null;
+
+    // El fetcher suele ser una función nueva en cada render; guardamos la
+    // última para no volver a disparar el efecto por eso.
+    const fetcherRef = useRef(fetcher);
+    useEffect(() => {
+        fetcherRef.current = fetcher;
+    });
+
+    const subscribe = useCallback(
+        (listener: () => void) => {
+            if (!hash) return () => undefined;
+            listenToFocus();
+            const entry = ensureEntry(hash);
+            entry.listeners.add(listener);
+            return () => {
+                entry.listeners.delete(listener);
+                // Nadie más espera esta petición: la cancelamos.
+                if (entry.listeners.size === 0) entry.controller?.abort();
+            };
+        },
+        [hash]
+    );
+
+    const getSnapshot = useCallback(
+        () => (hash ? (cache.get(hash)?.state ?? EMPTY_STATE) : EMPTY_STATE),
+        [hash]
+    );
+
+    const state = useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_STATE) as QueryState<T>;
+
+    // Registrar el fetcher y pedir si no hay datos o están viejos.
+    useEffect(() => {
+        if (!hash) return;
+        const entry = ensureEntry(hash);
+        entry.fetcher = (signal) => fetcherRef.current(signal);
+        entry.staleTime = staleTime;
+        if (isStale(entry)) {
+            runFetch(entry).catch(() => undefined);
+        }
+    }, [hash, staleTime]);
+
+    // Últimos datos mostrados, para keepPreviousData.
+    const previousDataRef = useRef<T | undefined>(undefined);
+    useEffect(() => {
+        if (state.data !== undefined) previousDataRef.current = state.data;
+    }, [state.data]);
+
+    const refetch = useCallback(async () => {
+        if (!hash) return;
+        await runFetch(ensureEntry(hash)).catch(() => undefined);
+    }, [hash]);
+
+    const data =
+        state.data !== undefined
+            ? state.data
+            : keepPreviousData
+                ? previousDataRef.current
+                : undefined;
+
+    return {
+        data,
+        error: state.error,
+        isLoading: data === undefined && !state.error,
+        isFetching: state.isFetching,
+        refetch,
+    };
+}
@@ -0,0 +1,254 @@
+// src/lib/schemas.ts
+//
+// VALIDACIÓN EN TIEMPO DE EJECUCIÓN DE LAS RESPUESTAS DE LA API.
+//
+// apiFetch<T> solo "dice" que la respuesta es T; si el backend renombra un
+// campo, la UI pinta undefined sin avisar. Con estos esquemas cada función
+// de api.ts valida lo que llega y, si algo no cuadra, lanza un
+// ResponseValidationError que nombra el campo (ej. "items[2].createdBy").
+//
+// Es un mini-validador propio (sin dependencias):
+//   string(), number(), oneOf([...]), optional(s), optionalOneOf([...]),
+//   array(s), object<T>({...}), entity(name, s)
+//
+// entity(...) aplica primero el adaptador de campos (adapters.ts), así el
+// renombre backend → app se hace en un solo lugar.
+//
+// Esquemas exportados: userSchema, eventSchema, registrationSchema,
+// postSchema, commentSchema, paginatedSchema(s), eventsResponseSchema,
+// loginResponseSchema.
+
+import { fromApi, type EntityName } from "./adapters";
+import { USER_ROLES } from "./permissions";
+import type { Author, Comment, Event, Paginated, Post, Registration, User } from "./types";
+
+///////////////////////
+// NÚCLEO
+///////////////////////
+
+export interface Schema<T> {
+    // path: ruta del valor dentro de la respuesta, para el mensaje de error.
+    parse(value: unknown, path: string): T;
+}
+
+// Error interno de validación; apiFetch lo convierte en ResponseValidationError
+// agregando endpoint y método.
+export class SchemaError extends Error {
+    readonly path: string;
+    readonly expected: string;
+    readonly received: string;
+
+    constructor(path: string, expected: string, value: unknown) {
+        const received = describe(value);
+        super(`Campo "${path || "(raíz)"}": se esperaba ${expected}, llegó ${received}`);
+        this.name = "SchemaError";
+        this.path = path;
+        this.expected = expected;
+        this.received = received;
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+    if (typeof key === "number") return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+///////////////////////
+// CONSTRUCTORES
+///////////////////////
+
+export function string(): Schema<string> {
+    return {
+        parse(value, path) {
+            if (typeof value !== "string") throw new SchemaError(path, "string", value);
+            return value;
+        },
+    };
+}
+
+export function number(): Schema<number> {
+    return {
+        parse(value, path) {
+            if (typeof value !== "number" || Number.isNaN(value)) {
+                throw new SchemaError(path, "number", value);
+            }
+            return value;
+        },
+    };
+}
+
+// Uno de los valores permitidos; cualquier otro falla.
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+        parse(value, path) {
+            if (typeof value !== "string" || !values.includes(value as T)) {
+                throw new SchemaError(path, values.map((v) => `"${v}"`).join(" | "), value);
+            }
+            return value as T;
+        },
+    };
+}
+
+// Acepta undefined y null (muchos backends mandan null en campos opcionales).
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return {
+        parse(value, path) {
+            if (value === undefined || value === null) return undefined;
+            return schema.parse(value, path);
+        },
+    };
+}
+
+// Uno de los valores conocidos o undefined: a diferencia de
+// optional(oneOf(...)), un valor desconocido no falla, se vuelve undefined.
+// Para el role: un rol nuevo del backend no debe romper el login.
+export function optionalOneOf<T extends string>(values: readonly T[]): Schema<T | undefined> {
+    return {
+        parse(value) {
+            return typeof value === "string" && values.includes(value as T)
+                ? (value as T)
+                : undefined;
+        },
+    };
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+    return {
+        parse(value, path) {
+            if (!Array.isArray(value)) throw new SchemaError(path, "array", value);
+            return value.map((item, i) => schema.parse(item, join(path, i)));
+        },
+    };
+}
+
+// Objeto con un esquema por cada campo de T. Los campos que no están en el
+// esquema se descartan; los opcionales undefined no se incluyen.
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+    return {
+        parse(value, path) {
+            if (!value || typeof value !== "object" || Array.isArray(value)) {
+                throw new SchemaError(path, "object", value);
+            }
+
+            const source = value as Record<string, unknown>;
+            const result: Record<string, unknown> = {};
+
+            for (const key of Object.keys(shape) as (keyof T & string)[]) {
+                const parsed = shape[key].parse(source[key], join(path, key));
+                if (parsed !== undefined) result[key] = parsed;
+            }
+            return result as T;
+        },
+    };
+}
+
+// Aplica el adaptador de campos de la entidad antes de validar.
+export function entity<T>(name: EntityName, schema: Schema<T>): Schema<T> {
+    return {
+        parse(value, path) {
+            return schema.parse(fromApi(name, value), path);
+        },
+    };
+}
+
+///////////////////////
+// ESQUEMAS DEL DOMINIO
+///////////////////////
+
+export const userSchema: Schema<User> = entity(
+    "user",
+    object<User>({
+        userId: string(),
+        name: string(),
+        email: string(),
+        city: string(),
+        password: optional(string()),
+        // Rol desconocido → sin role (reglas de antes, ver permissions.ts).
+        role: optionalOneOf(USER_ROLES),
+    })
+);
+
+export const eventSchema: Schema<Event> = entity(
+    "event",
+    object<Event>({
+        eventId: string(),
+        name: string(),
+        description: string(),
+        date: string(),
+        city: string(),
+        createdBy: string(),
+        capacity: optional(number()),
+        participantsCount: optional(number()),
+    })
+);
+
+export const registrationSchema: Schema<Registration> = entity(
+    "registration",
+    object<Registration>({
+        regId: string(),
+        eventId: string(),
+        userId: string(),
+        registeredAt: string(),
+    })
+);
+
+const authorSchema: Schema<Author> = entity(
+    "author",
+    object<Author>({
+        userId: string(),
+        name: string(),
+        email: string(),
+    })
+);
+
+export const postSchema: Schema<Post> = entity(
+    "post",
+    object<Post>({
+        id: number(),
+        title: string(),
+        body: string(),
+        author: authorSchema,
+        createdAt: optional(string()),
+    })
+);
+
+export const commentSchema: Schema<Comment> = entity(
+    "comment",
+    object<Comment>({
+        id: number(),
+        postId: number(),
+        body: string(),
+        author: authorSchema,
+        createdAt: optional(string()),
+    })
+);
+
+export function paginatedSchema<T>(itemSchema: Schema<T>): Schema<Paginated<T>> {
+    return object<Paginated<T>>({
+        items: array(itemSchema),
+        total: number(),
+        page: number(),
+        pageSize: number(),
+    });
+}
+
+// GET /events: sobre paginado o, en backends sin paginación, arreglo plano.
+// getEventsApi normaliza el arreglo a sobre después de validar.
+export const eventsResponseSchema: Schema<Paginated<Event> | Event[]> = {
+    parse(value, path) {
+        return Array.isArray(value)
+            ? array(eventSchema).parse(value, path)
+            : paginatedSchema(eventSchema).parse(value, path);
+    },
+};
+
+export const loginResponseSchema: Schema<{ token: string; user: User }> = object({
+    token: string(),
+    user: userSchema,
+});
@@ -0,0 +1,130 @@
+// src/lib/session.ts
+//
+// UTILIDADES DE SESIÓN (sin React, sin store).
+//
+// Responsabilidades:
+// - Leer la fecha de expiración (exp) de un token JWT, si la tiene.
+// - Construir la URL de login con ?next=... para volver después de loguearse.
+// - Validar el parámetro next para no redirigir a dominios externos.
+// - Definir qué rutas son protegidas (las usa middleware.ts en el servidor).
+// - Sincronizar la cookie httpOnly de sesión con /api/session.
+//
+// ¿Quién usa este archivo?
+// - middleware.ts  → SESSION_COOKIE, isProtectedPath, getTokenExpiration.
+// - api/session    → SESSION_COOKIE, getTokenExpiration.
+// - SessionWatcher → getTokenExpiration, buildLoginUrl, isProtectedPath.
+// - LoginPage      → sanitizeNextPath, startServerSession.
+// - authStore      → endServerSession (en logout).
+//
+// Ojo: este archivo también corre en el runtime edge del middleware,
+// así que NO puede importar React, el store ni nada de Node.
+
+// Margen para cerrar sesión ANTES de que el token expire de verdad.
+// Así evitamos disparar peticiones con un token que vence a mitad de camino.
+export const EXPIRY_MARGIN_MS = 10_000;
+
+// Ruta por defecto después del login (el "home" de la app).
+export const DEFAULT_AFTER_LOGIN = "/events";
+
+// Nombre de la cookie httpOnly donde el servidor guarda el token.
+export const SESSION_COOKIE = "session_token";
+
+// Rutas del grupo (general) que requieren sesión.
+// /login queda fuera a propósito: es la única pública.
+const PROTECTED_PREFIXES = ["/events", "/profile", "/users", "/feed", "/posts", "/admin"];
+
+// true si pathname es una ruta protegida o cuelga de una (ej. /events/E001).
+export function isProtectedPath(pathname: string): boolean {
+    return PROTECTED_PREFIXES.some(
+        (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+    );
+}
+
+// Devuelve la expiración del token en milisegundos (epoch), o null si el
+// token no es un JWT o no trae el claim exp.
+//
+// No validamos la firma: eso lo hace el backend. Solo leemos el payload.
+export function getTokenExpiration(token: string): number | null {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+
+    try {
+        // El payload viene en base64url; lo pasamos a base64 normal para atob.
+        const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+        const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+        const payload = JSON.parse(atob(padded)) as { exp?: unknown };
+
+        return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+}
+
+// Solo aceptamos rutas internas ("/events/E001"), nunca "//evil.com",
+// "/\evil.com" (el navegador la resuelve como //evil.com) ni URLs absolutas.
+// Si next no es válido devolvemos la ruta por defecto.
+//
+// Se resuelve contra un origen ficticio: si el origen cambia, next apuntaba
+// fuera de la app. Devolvemos solo pathname + search + hash ya normalizados.
+const SANITIZE_BASE = "http://internal.invalid";
+
+export function sanitizeNextPath(next: string | null | undefined): string {
+    // Barras invertidas y caracteres de control: los navegadores los
+    // "corrigen" de formas que pueden sacar al usuario del sitio.
+    if (!next || !next.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(next)) {
+        return DEFAULT_AFTER_LOGIN;
+    }
+
+    let url: URL;
+    try {
+        url = new URL(next, SANITIZE_BASE);
+    } catch {
+        return DEFAULT_AFTER_LOGIN;
+    }
+    if (url.origin !== SANITIZE_BASE) {
+        return DEFAULT_AFTER_LOGIN;
+    }
+
+    if (url.pathname === "/login") {
+        return DEFAULT_AFTER_LOGIN;
+    }
+    return url.pathname + url.search + url.hash;
+}
+
+// Construye "/login?next=<ruta actual>" para recordar dónde estaba el usuario.
+export function buildLoginUrl(currentPath?: string | null): string {
+    if (!currentPath || sanitizeNextPath(currentPath) === DEFAULT_AFTER_LOGIN) {
+        return "/login";
+    }
+    return `/login?next=${encodeURIComponent(currentPath)}`;
+}
+
+///////////////////////
+// COOKIE DE SESIÓN
+///////////////////////
+
+// Guarda el token en la cookie httpOnly llamando al route handler
+// POST /api/session. LoginPage lo espera ANTES de navegar, así el
+// middleware ya ve la cookie en la siguiente petición.
+export async function startServerSession(token: string): Promise<void> {
+    const res = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+    });
+
+    if (!res.ok) {
+        throw new Error(`No se pudo iniciar la sesión (${res.status})`);
+    }
+}
+
+// Borra la cookie de sesión (DELETE /api/session).
+// Si falla no pasa nada grave: la cookie expira sola y el backend
+// rechazará el token con 401.
+export async function endServerSession(): Promise<void> {
+    try {
+        await fetch("/api/session", { method: "DELETE" });
+    } catch {
+        // Sin conexión: ignoramos.
+    }
+}
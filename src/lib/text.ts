@@ -0,0 +1,27 @@
+// src/lib/text.ts
+//
+// UTILIDADES DE TEXTO.
+//
+// ¿Quién usa este archivo?
+// - UsersPage y AdminTable → normalizeText para buscar sin tildes.
+// - AttendeeList, EventExportButtons, EventDetailPage → slugify para
+//   nombres de archivos exportados.
+
+// "José Pérez" → "jose perez": sin tildes y en minúsculas, para que
+// "jose" encuentre a "José" en las búsquedas.
+export function normalizeText(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase();
+}
+
+// "Encuentro de IA" → "encuentro-de-ia" para nombres de archivo.
+// Si no queda nada (solo símbolos), devuelve fallback.
+export function slugify(text: string, fallback = "archivo"): string {
+    return (
+        normalizeText(text)
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-|-$/g, "") || fallback
+    );
+}
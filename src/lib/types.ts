@@ -7,6 +7,8 @@
 //  - User          → usuario del sistema
 //  - Event         → evento creado por un usuario
 //  - Registration  → inscripción de un usuario a un evento
+//  - Post          → publicación del feed social
+//  - Comment       → comentario dentro de un post
 //
 // ¿Quién usa estos tipos?
 //  - api.ts           → para tipar respuestas de la API
@@ -31,14 +33,25 @@
 // Nota: por higiene normalmente NO devolveríamos el password desde el backend,
 // pero el enunciado dice explícitamente que no va cifrado. Por si el backend
 // lo devuelve, lo dejamos como opcional.
+//
+// role decide qué puede hacer el usuario (ver permissions.ts). Es opcional
+// porque el backend del parcial no lo manda: sin role rigen las reglas de
+// antes de los roles.
 export interface User {
   userId: string;
   name: string;
   email: string;
   city: string;
   password?: string;
+  role?: UserRole;
 }
 
+// Roles:
+// - admin:     todo, incluido crear usuarios y moderar posts / comentarios.
+// - organizer: crea eventos y gestiona los suyos.
+// - attendee:  se inscribe a eventos y participa en el feed.
+export type UserRole = "admin" | "organizer" | "attendee";
+
 ///////////////////////
 // EVENTO (Event)
 ///////////////////////
@@ -51,11 +64,16 @@ export interface User {
 //   "description": "...",
 //   "date": "2025-12-05T18:00:00Z",
 //   "city": "Bogotá",
-//   "createdBy": "U001"
+//   "createdBy": "U001",
+//   "capacity": 30
 // }
 //
 // createdBy es el userId del creador del evento.
 // Solo ese usuario puede editar/borrar el evento (regla del parcial).
+//
+// capacity es opcional: si no viene, el evento no tiene límite de cupos.
+// Si viene, las inscripciones que sobran quedan en lista de espera
+// (ver src/lib/capacity.ts).
 export interface Event {
   eventId: string;
   name: string;
@@ -63,6 +81,7 @@ export interface Event {
   date: string;      // string en formato ISO o similar
   city: string;
   createdBy: string; // userId del creador
+  capacity?: number; // cupos máximos (sin límite si no viene)
 
   // Campo opcional que puedes usar para mostrar el número de participantes
   // sin tener que hacer un GET extra. Si el backend no lo manda, lo calculas
@@ -70,6 +89,47 @@ export interface Event {
   participantsCount?: number;
 }
 
+///////////////////////
+// CONSULTA DE EVENTOS (EventsQuery)
+///////////////////////
+
+// Campos por los que el backend puede ordenar GET /events.
+export type EventSortField = "date" | "name" | "city";
+export type SortDirection = "asc" | "desc";
+
+// Filtros, orden y paginación para GET /events. Todos opcionales:
+// lo que no se manda, el backend no lo filtra.
+//
+//   GET /events?city=Cali&from=2025-12-01&to=2025-12-31&q=ia
+//              &sortBy=date&sortDir=asc&page=2&pageSize=10
+export interface EventsQuery {
+  city?: string;
+  from?: string;       // fecha mínima YYYY-MM-DD (inclusive)
+  to?: string;         // fecha máxima YYYY-MM-DD (inclusive)
+  q?: string;          // búsqueda libre en nombre / descripción
+  createdBy?: string;  // userId del creador
+  sortBy?: EventSortField;
+  sortDir?: SortDirection;
+  page?: number;       // empieza en 1
+  pageSize?: number;
+}
+
+///////////////////////
+// RESPUESTA PAGINADA (Paginated)
+///////////////////////
+
+// Sobre (envelope) que devuelve el backend en listados paginados:
+//
+// { "items": [...], "total": 57, "page": 2, "pageSize": 10 }
+//
+// total es el número de elementos que cumplen los filtros (todas las páginas).
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 ///////////////////////
 // INSCRIPCIÓN (Registration)
 ///////////////////////
@@ -88,3 +148,61 @@ export interface Registration {
   userId: string;      // id del usuario que se inscribe
   registeredAt: string;
 }
+
+///////////////////////
+// AUTOR (Author)
+///////////////////////
+
+// Datos mínimos del autor que el backend embebe dentro de posts y comentarios.
+// PostItem y CommentList muestran "Por {name} ({email})", así que no hace
+// falta pedir GET /users/{id} por cada post.
+export interface Author {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+///////////////////////
+// POST (Post)
+///////////////////////
+
+// Representa una publicación del feed:
+//
+// {
+//   "id": 1,
+//   "title": "Bienvenidos",
+//   "body": "Primer post del feed",
+//   "author": { "userId": "U001", "name": "Juan Pérez", "email": "juan.perez@example.com" },
+//   "createdAt": "2025-10-10T09:15:00Z"
+// }
+//
+// El id es numérico: PostDetailPage convierte params.id con Number(...).
+// Solo el autor (author.userId) debería poder editar/borrar el post.
+export interface Post {
+  id: number;
+  title: string;
+  body: string;
+  author: Author;
+  createdAt?: string;
+}
+
+///////////////////////
+// COMENTARIO (Comment)
+///////////////////////
+
+// Representa un comentario de un post:
+//
+// {
+//   "id": 10,
+//   "postId": 1,
+//   "body": "¡Qué buen post!",
+//   "author": { "userId": "U002", "name": "Ana Gómez", "email": "ana.gomez@example.com" },
+//   "createdAt": "2025-10-10T10:00:00Z"
+// }
+export interface Comment {
+  id: number;
+  postId: number;      // id del post al que pertenece
+  body: string;
+  author: Author;
+  createdAt?: string;
+}
@@ -0,0 +1,92 @@
+// src/lib/userDirectory.ts
+//
+// RESOLUCIÓN DE USUARIOS POR userId (CON CACHÉ).
+//
+// Problema: las inscripciones solo traen userId. Para mostrar nombres
+// hacer GET /users/{id} por cada inscripción es N+1.
+//
+// Solución:
+// - Caché en memoria (userId → User) compartida por toda la app.
+// - resolveUsers(token, ids) solo pide los que faltan:
+//     * 1 faltante   → GET /users/{id}
+//     * 2 o más      → un solo GET /users y llenamos la caché con todos.
+// - Las peticiones en vuelo se comparten: si dos componentes piden lo
+//   mismo a la vez, sale una sola llamada.
+//
+// ¿Quién usa este archivo?
+// - EventDetailPage → lista de asistentes (AttendeeList).
+// - queries.ts      → primeUserCache con GET /users (useUsers) y con el
+//                     usuario recién editado (updateProfile).
+
+import { getUserByIdApi, getUsersApi } from "./api";
+import type { User } from "./types";
+
+const userCache = new Map<string, User>();
+
+// Petición GET /users en curso (si la hay) y GET /users/{id} en curso por id.
+let allUsersRequest: Promise<User[]> | null = null;
+const userRequests = new Map<string, Promise<User>>();
+
+function fetchAllUsers(token: string): Promise<User[]> {
+    if (!allUsersRequest) {
+        allUsersRequest = getUsersApi(token)
+            .then((users) => {
+                users.forEach((user) => userCache.set(user.userId, user));
+                return users;
+            })
+            .finally(() => {
+                allUsersRequest = null;
+            });
+    }
+    return allUsersRequest;
+}
+
+function fetchUser(token: string, userId: string): Promise<User> {
+    let request = userRequests.get(userId);
+    if (!request) {
+        request = getUserByIdApi(token, userId)
+            .then((user) => {
+                userCache.set(user.userId, user);
+                return user;
+            })
+            .finally(() => {
+                userRequests.delete(userId);
+            });
+        userRequests.set(userId, request);
+    }
+    return request;
+}
+
+// Devuelve un mapa userId → User para los ids pedidos.
+// Los ids que el backend no conoce simplemente no aparecen en el mapa.
+export async function resolveUsers(
+    token: string,
+    userIds: string[]
+): Promise<Record<string, User>> {
+    const uniqueIds = Array.from(new Set(userIds));
+    const missing = uniqueIds.filter((id) => !userCache.has(id));
+
+    if (missing.length === 1) {
+        // Un 404 de un usuario borrado no debe romper la lista entera.
+        await fetchUser(token, missing[0]).catch(() => undefined);
+    } else if (missing.length > 1) {
+        await fetchAllUsers(token);
+    }
+
+    const result: Record<string, User> = {};
+    for (const id of uniqueIds) {
+        const user = userCache.get(id);
+        if (user) result[id] = user;
+    }
+    return result;
+}
+
+// Guarda (o actualiza) usuarios ya conocidos, ej. el usuario logueado.
+export function primeUserCache(users: User[]): void {
+    users.forEach((user) => userCache.set(user.userId, user));
+}
+
+// Vacía la caché (al cerrar sesión, para no mezclar datos entre cuentas).
+export function clearUserCache(): void {
+    userCache.clear();
+}
@@ -0,0 +1,128 @@
+// src/lib/userImport.ts
+//
+// ALTA MASIVA DE USUARIOS DESDE CSV.
+//
+// Para dar de alta un curso completo de una vez: el admin sube un CSV con
+// columnas name, email, city y password (role es opcional) y aquí se lee y
+// se valida fila por fila ANTES de llamar a la API, para mostrar una vista
+// previa con los errores de cada fila:
+//
+//   name,email,city,password
+//   Ana Gómez,ana@example.com,Bogotá,Hola1234**
+//
+// - El encabezado es obligatorio; el orden de las columnas da igual y no
+//   distingue mayúsculas.
+// - Errores por fila: campos vacíos, email inválido, email repetido dentro
+//   del archivo o ya registrado, contraseña corta (MIN_PASSWORD_LENGTH),
+//   rol desconocido.
+//
+// ¿Quién usa este archivo?
+// - UserCsvImport (/users/new) → parseUserCsv y failuresToCsv.
+
+import { parseCsv, toCsv } from "./csv";
+import { DEFAULT_ROLE, USER_ROLES } from "./permissions";
+import type { UserRole } from "./types";
+import { isValidEmail, MIN_PASSWORD_LENGTH } from "./validation";
+
+export const REQUIRED_COLUMNS = ["name", "email", "city", "password"] as const;
+
+export interface UserImportData {
+    name: string;
+    email: string;
+    city: string;
+    password: string;
+    role: UserRole;
+}
+
+export interface UserImportRow {
+    line: number; // línea del archivo (1 = encabezado), para los mensajes
+    data: UserImportData;
+    errors: string[];
+}
+
+// Resultado de leer el archivo: o un error general (encabezado, archivo
+// vacío) o las filas con sus errores.
+export type UserImportParse = { error: string } | { rows: UserImportRow[] };
+
+// Lee y valida el CSV. existingEmails: emails ya registrados (en minúsculas).
+export function parseUserCsv(text: string, existingEmails: Set<string>): UserImportParse {
+    const [header, ...records] = parseCsv(text);
+    if (!header) return { error: "El archivo está vacío." };
+
+    const columns = header.map((cell) => cell.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+    if (missing.length) {
+        return { error: `Faltan columnas en el encabezado: ${missing.join(", ")}.` };
+    }
+    if (records.length === 0) return { error: "El archivo no tiene filas de usuarios." };
+
+    const cell = (record: string[], column: string) =>
+        (record[columns.indexOf(column)] ?? "").trim();
+
+    // Email → primera línea en que aparece, para marcar los repetidos.
+    const seen = new Map<string, number>();
+
+    const rows = records.map((record, i) => {
+        const line = i + 2;
+        const errors: string[] = [];
+
+        const email = cell(record, "email").toLowerCase();
+        const rawRole = columns.includes("role") ? cell(record, "role").toLowerCase() : "";
+        const data: UserImportData = {
+            name: cell(record, "name"),
+            email,
+            city: cell(record, "city"),
+            // La contraseña no se recorta: los espacios pueden ser parte de ella.
+            password: record[columns.indexOf("password")] ?? "",
+            role: DEFAULT_ROLE,
+        };
+
+        const empty = REQUIRED_COLUMNS.filter((column) =>
+            column === "password" ? !data.password.trim() : !data[column]
+        );
+        if (empty.length) errors.push(`Faltan: ${empty.join(", ")}.`);
+        else if (data.password.length < MIN_PASSWORD_LENGTH) {
+            errors.push(`La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+        }
+
+        if (email) {
+            if (!isValidEmail(email)) {
+                errors.push("Email no válido.");
+            } else if (existingEmails.has(email)) {
+                errors.push("Ya existe un usuario con ese email.");
+            } else if (seen.has(email)) {
+                errors.push(`Email repetido (línea ${seen.get(email)}).`);
+            } else {
+                seen.set(email, line);
+            }
+        }
+
+        if (rawRole) {
+            if ((USER_ROLES as string[]).includes(rawRole)) data.role = rawRole as UserRole;
+            else errors.push(`Rol desconocido: ${rawRole}.`);
+        }
+
+        return { line, data, errors };
+    });
+
+    return { rows };
+}
+
+// CSV de las filas que fallaron, con su motivo, para corregirlas y volver
+// a subirlas (la columna "error" se ignora al importar). Sin la protección
+// contra fórmulas de toCsv: el ' delante cambiaría contraseñas y nombres
+// al volver a importarlo.
+export function failuresToCsv(failures: { data: UserImportData; error: string }[]): string {
+    const rows = [
+        ["name", "email", "city", "password", "role", "error"],
+        ...failures.map(({ data, error }) => [
+            data.name,
+            data.email,
+            data.city,
+            data.password,
+            data.role,
+            error,
+        ]),
+    ];
+    return toCsv(rows, { guardFormulas: false });
+}
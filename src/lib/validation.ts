@@ -0,0 +1,23 @@
+// src/lib/validation.ts
+//
+// VALIDACIONES DE FORMULARIOS COMPARTIDAS.
+//
+// Reglas que se repiten en más de un formulario (y que el backend mock
+// aplica igual, para que el mensaje del cliente y el 400 coincidan).
+//
+// ¿Quién usa este archivo?
+// - ProfileForm        → isValidEmail.
+// - userImport         → isValidEmail y MIN_PASSWORD_LENGTH (filas del CSV
+//                        de alta masiva).
+// - ChangePasswordForm → MIN_PASSWORD_LENGTH.
+// - Backend mock (api/mock/_lib/validation.ts) → las mismas reglas.
+
+// Largo mínimo de una contraseña nueva.
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Formato básico usuario@dominio.tld; la validación real la hace el backend.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string): boolean {
+    return EMAIL_PATTERN.test(email.trim());
+}
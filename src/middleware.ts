@@ -0,0 +1,67 @@
+// src/middleware.ts
+//
+// PROTECCIÓN DE RUTAS EN EL SERVIDOR
+//
+// Corre antes de renderizar cualquier página. Si la ruta es protegida
+// (/events, /profile, /users, /feed, /posts) y no hay cookie de sesión
+// válida, redirige a /login?next=<ruta pedida>. Así las páginas ya no
+// tienen que redirigirse solas ni se ve contenido protegido por un instante.
+//
+// La cookie la crea /api/session en el login (ver src/app/api/session/route.ts).
+// Aquí NO validamos la firma del token (eso es trabajo del backend); solo
+// que exista y, si es JWT, que no haya expirado.
+//
+// También apaga el backend mock: /api/mock/* responde 404 salvo con
+// NEXT_PUBLIC_USE_MOCK_API=true. Sus tokens no llevan firma y sus usuarios
+// (contraseñas incluidas) están en fixtures.ts, así que nunca debe quedar
+// expuesto en un despliegue que usa el backend real.
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  SESSION_COOKIE,
+  buildLoginUrl,
+  getTokenExpiration,
+  isProtectedPath,
+} from "@/lib/session";
+
+const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname === "/api/mock" || pathname.startsWith("/api/mock/")) {
+    return USE_MOCK_API
+      ? NextResponse.next()
+      : NextResponse.json({ message: "Not found" }, { status: 404 });
+  }
+
+  if (!isProtectedPath(pathname)) {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const expiresAt = token ? getTokenExpiration(token) : null;
+  const isExpired = expiresAt !== null && expiresAt <= Date.now();
+
+  if (token && !isExpired) {
+    return NextResponse.next();
+  }
+
+  const res = NextResponse.redirect(
+    new URL(buildLoginUrl(pathname + search), request.url)
+  );
+  if (isExpired) {
+    res.cookies.delete(SESSION_COOKIE);
+  }
+  return res;
+}
+
+// Excluimos assets, route handlers y archivos estáticos; el resto pasa
+// por isProtectedPath. De los route handlers solo entra el backend mock.
+export const config = {
+  matcher: [
+    "/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)",
+    "/api/mock/:path*",
+  ],
+};
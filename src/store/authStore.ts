@@ -9,24 +9,45 @@
 // - Exponer funciones para:
 //     * setAuth(token, user): guardar credenciales al hacer login.
 //     * logout(): limpiar estado y localStorage.
+//     * updateUser(user): reemplazar los datos del usuario (perfil editado).
 //     * hydrateFromStorage(): leer token/usuario guardados en localStorage.
+//     * syncFromStorage(): aplicar lo que otra pestaña escribió en localStorage.
+//
+// SINCRONIZACIÓN ENTRE PESTAÑAS:
+// localStorage es el canal. Cuando una pestaña hace setAuth, logout o
+// updateUser, el navegador dispara el evento "storage" en las DEMÁS pestañas
+// (nunca en la que escribió). SessionWatcher lo escucha y llama a
+// syncFromStorage(), que copia token/usuario al store sin volver a escribir
+// localStorage (así no hay rebotes entre pestañas).
+//
+// La sesión también vive en una cookie httpOnly (ver /api/session) que usa
+// middleware.ts para proteger rutas en el servidor. Este store es la vista
+// CLIENTE de esa misma sesión: el token para apiFetch y los datos del usuario.
 //
 // ¿Quién usa este store AHORA (versión eventos)?
+// - SessionWatcher (layout general):
+//     * hydrateFromStorage() → una sola vez al montar.
+//     * logout()             → cuando el token expira o la API responde 401.
+//     * syncFromStorage()    → en cada evento "storage" de token/user.
+// - NavBar (layout general):
+//     * user     → nombre en el menú y qué enlaces mostrar.
+//     * logout() → botón "Cerrar sesión".
 // - LoginPage:
 //     * setAuth(...) → cuando el login es exitoso.
 //     * token        → si ya hay token, redirige a /events.
-//     * hydrateFromStorage().
-// - EventsPage (/events):
-//     * token        → para llamar getEventsApi / createEventApi.
-//     * hydrateFromStorage().
+// - Hooks de queries.ts (useEvents, useEvent, useEventRegistrations, ...):
+//     * token        → para llamar a la API; EventsPage, EventDetailPage y
+//                      ProfilePage ya no lo leen para cargar datos.
 // - EventDetailPage (/events/[id]):
-//     * token        → para getEventByIdApi, getRegistrationsByEventApi, createRegistrationApi.
-//     * user         → para saber si el actual está inscrito (user.userId).
-//     * hydrateFromStorage().
+//     * user         → para saber si el actual es el creador (user.userId).
 // - ProfilePage (/profile):
-//     * token, user  → para pedir /registrations?userId=... y mostrar perfil.
+//     * user         → para pedir /registrations?userId=... y mostrar perfil.
+// - ProfileForm (en /profile):
+//     * updateUser(...) → después de PATCH /users/{id} exitoso.
 // - NewUserPage (/users/new):
 //     * token        → para createUserApi.
+// - FeedPage (/feed) y PostDetailPage (/posts/[id]):
+//     * token        → para getPostsApi, getPostByIdApi, getCommentsByPostApi.
 // - Componentes:
 //     * AuthUser         → muestra name/email/city del usuario.
 //     * RegisterButton   → usa user.userId y token.
@@ -42,6 +63,9 @@
 
 import { create } from "zustand";
 import type { User } from "@/lib/types";
+import { endServerSession } from "@/lib/session";
+import { clearUserCache } from "@/lib/userDirectory";
+import { clearQueryCache } from "@/lib/queryCache";
 
 // Definimos la forma del estado de autenticación.
 interface AuthState {
@@ -49,13 +73,15 @@ interface AuthState {
   user: User | null;                 // información del usuario actual (userId, name, email, city)
   setAuth: (token: string, user: User) => void; // establece token + usuario
   logout: () => void;                            // limpia token + usuario
+  updateUser: (user: User) => void;              // reemplaza el usuario (mismo token)
   hydrateFromStorage: () => void;                // intenta leer desde localStorage
+  syncFromStorage: () => void;                   // aplica cambios hechos en otra pestaña
 }
 
 // Store global de autenticación.
 // 'useAuthStore' es un hook que permite leer y actualizar este estado
 // desde cualquier componente cliente.
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   // Estado inicial: no hay token ni usuario
   token: null,
   user: null,
@@ -81,14 +107,33 @@ export const useAuthStore = create<AuthState>((set) => ({
   // logout:
   // - Limpia el estado (token y usuario a null).
   // - Borra los datos guardados en localStorage.
+  // - Borra la cookie httpOnly de sesión (DELETE /api/session) para que el
+  //   middleware vuelva a proteger las rutas.
+  // - Vacía las cachés (userDirectory y queryCache) para no mezclar cuentas.
   //
-  // Útil si quisieras un botón "Cerrar sesión" en el NavBar.
+  // ¿Quién llama esto?
+  // - NavBar, con el botón "Cerrar sesión".
+  // - SessionWatcher, cuando el token expira o la API responde 401.
   logout: () => {
     set({ token: null, user: null });
+    clearUserCache();
+    clearQueryCache();
 
     if (typeof window !== "undefined") {
       localStorage.removeItem("token");
       localStorage.removeItem("user");
+      void endServerSession();
+    }
+  },
+
+  // updateUser:
+  // - Reemplaza los datos del usuario actual manteniendo el token.
+  // - Lo guarda en localStorage, lo que además avisa a las otras pestañas.
+  updateUser: (user) => {
+    set({ user });
+
+    if (typeof window !== "undefined") {
+      localStorage.setItem("user", JSON.stringify(user));
     }
   },
 
@@ -98,8 +143,8 @@ export const useAuthStore = create<AuthState>((set) => ({
   // - Si hay problema al parsear, limpia localStorage.
   //
   // ¿Cuándo se llama?
-  // - Al montar páginas como LoginPage, EventsPage, EventDetailPage, ProfilePage,
-  //   para restaurar la sesión si el usuario ya se había logueado.
+  // - Una sola vez, desde SessionWatcher en el layout (general), para
+  //   restaurar la sesión si el usuario ya se había logueado.
   hydrateFromStorage: () => {
     // En servidor (SSR) no existe window ni localStorage, así que salimos.
     if (typeof window === "undefined") return;
@@ -119,4 +164,41 @@ export const useAuthStore = create<AuthState>((set) => ({
       }
     }
   },
+
+  // syncFromStorage:
+  // - Lee token y usuario de localStorage tal como los dejó otra pestaña.
+  // - Sin token (o con datos corruptos) → queda sin sesión.
+  // - Si cambió el token (logout o login con otra cuenta) vacía las cachés,
+  //   igual que logout, para no mostrar datos de la cuenta anterior.
+  // - NO escribe localStorage ni llama a endServerSession: eso ya lo hizo la
+  //   pestaña que originó el cambio (la cookie es compartida).
+  //
+  // ¿Quién llama esto?
+  // - SessionWatcher, al recibir un evento "storage" de "token" o "user".
+  syncFromStorage: () => {
+    if (typeof window === "undefined") return;
+
+    const token = localStorage.getItem("token");
+    const userStr = localStorage.getItem("user");
+
+    let user: User | null = null;
+    if (token && userStr) {
+      try {
+        user = JSON.parse(userStr);
+      } catch {
+        user = null;
+      }
+    }
+
+    // logout() borra "token" y luego "user": entre medias puede llegar un
+    // evento con token pero sin usuario. Lo tratamos como sesión cerrada.
+    const nextToken = user ? token : null;
+
+    if (nextToken !== get().token) {
+      clearUserCache();
+      clearQueryCache();
+    }
+
+    set({ token: nextToken, user });
+  },
 }));
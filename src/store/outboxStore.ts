@@ -0,0 +1,166 @@
+// src/store/outboxStore.ts
+//
+// BANDEJA DE SALIDA (OUTBOX) PERSISTENTE usando Zustand + localStorage.
+//
+// Responsabilidades:
+// - Guardar, en orden, las acciones que el usuario hizo sin conexión
+//   (inscribirse a un evento, publicar un post) para enviarlas después.
+// - Guardar los conflictos: acciones que al reenviarse el backend rechazó
+//   (ej. el evento se eliminó mientras tanto), para avisarle al usuario.
+// - Persistir ambas listas en localStorage (sobreviven a recargar la página).
+//
+// Varias pestañas comparten la misma clave: cada cambio vuelve a leer
+// localStorage ANTES de escribir (commit), así lo que encoló otra pestaña
+// no se pisa. OutboxBanner además escucha el evento "storage" para que la
+// barra de cada pestaña refleje los cambios de las otras (hydrateOutbox).
+//
+// Este store solo guarda datos; la lógica de encolar y reenviar vive en
+// lib/outbox.ts (sendOrQueue, flushOutbox).
+//
+// ¿Quién usa este store?
+// - lib/outbox.ts → enqueue, removeItem, addConflict.
+// - OutboxBanner  → items, conflicts, hydrateOutbox (al montar y en
+//                   "storage"), dismissConflict.
+
+"use client";
+
+import { create } from "zustand";
+
+// Clave en localStorage.
+export const OUTBOX_STORAGE_KEY = "outbox";
+
+// Acción pendiente. userId = quién la hizo: solo se reenvía con su sesión.
+export type OutboxItem =
+  | {
+      id: string;
+      kind: "registration";
+      userId: string;
+      createdAt: string;
+      data: { eventId: string; userId: string };
+    }
+  | {
+      id: string;
+      kind: "post";
+      userId: string;
+      createdAt: string;
+      data: { title: string; body: string };
+    };
+
+// Lo que recibe enqueue: el store asigna id y createdAt.
+export type NewOutboxItem =
+  | Omit<Extract<OutboxItem, { kind: "registration" }>, "id" | "createdAt">
+  | Omit<Extract<OutboxItem, { kind: "post" }>, "id" | "createdAt">;
+
+export interface OutboxConflict {
+  id: string;
+  userId: string;
+  label: string;   // ej. 'Inscripción al evento E001'
+  message: string; // por qué lo rechazó el backend
+}
+
+interface OutboxState {
+  items: OutboxItem[];
+  conflicts: OutboxConflict[];
+  // Agrega una acción al final. Devuelve false si era un duplicado
+  // (misma inscripción eventId/userId ya en cola) y no se agregó.
+  enqueue: (item: NewOutboxItem) => boolean;
+  removeItem: (id: string) => void;
+  addConflict: (conflict: OutboxConflict) => void;
+  dismissConflict: (id: string) => void;
+  hydrateOutbox: () => void;
+}
+
+let nextOutboxId = 1;
+
+type SavedOutbox = Pick<OutboxState, "items" | "conflicts">;
+
+// Lee la bandeja guardada; null si no hay localStorage (servidor).
+function readSaved(): SavedOutbox | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = localStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (!raw) return { items: [], conflicts: [] };
+    const saved = JSON.parse(raw) as Partial<SavedOutbox>;
+    return {
+      items: Array.isArray(saved.items) ? saved.items : [],
+      conflicts: Array.isArray(saved.conflicts) ? saved.conflicts : [],
+    };
+  } catch {
+    // Si está corrupto, empezamos de cero.
+    localStorage.removeItem(OUTBOX_STORAGE_KEY);
+    return { items: [], conflicts: [] };
+  }
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => {
+  // Aplica recipe sobre lo ÚLTIMO guardado (puede haberlo cambiado otra
+  // pestaña), lo guarda y actualiza el store.
+  function commit(recipe: (current: SavedOutbox) => SavedOutbox): void {
+    const current = readSaved() ?? { items: get().items, conflicts: get().conflicts };
+    const next = recipe(current);
+    if (typeof window !== "undefined") {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(next));
+    }
+    set(next);
+  }
+
+  return {
+    items: [],
+    conflicts: [],
+
+    enqueue: (item) => {
+      let added = false;
+
+      commit(({ items, conflicts }) => {
+        // Dos clics en "Unirme" sin conexión = una sola inscripción.
+        if (
+          item.kind === "registration" &&
+          items.some(
+            (queued) =>
+              queued.kind === "registration" &&
+              queued.data.eventId === item.data.eventId &&
+              queued.data.userId === item.data.userId
+          )
+        ) {
+          return { items, conflicts };
+        }
+
+        added = true;
+        const newItem = {
+          ...item,
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}-${nextOutboxId++}`,
+          createdAt: new Date().toISOString(),
+        } as OutboxItem;
+        return { items: [...items, newItem], conflicts };
+      });
+
+      return added;
+    },
+
+    removeItem: (id) => {
+      commit(({ items, conflicts }) => ({
+        items: items.filter((item) => item.id !== id),
+        conflicts,
+      }));
+    },
+
+    addConflict: (conflict) => {
+      commit(({ items, conflicts }) => ({ items, conflicts: [...conflicts, conflict] }));
+    },
+
+    dismissConflict: (id) => {
+      commit(({ items, conflicts }) => ({
+        items,
+        conflicts: conflicts.filter((conflict) => conflict.id !== id),
+      }));
+    },
+
+    // Lee la bandeja guardada. OutboxBanner lo llama al montar y cuando otra
+    // pestaña la cambia; flushOutbox, antes de reenviar.
+    hydrateOutbox: () => {
+      const saved = readSaved();
+      if (saved) set(saved);
+    },
+  };
+});
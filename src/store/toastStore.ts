@@ -0,0 +1,56 @@
+// src/store/toastStore.ts
+//
+// STORE GLOBAL DE AVISOS (TOASTS) usando Zustand.
+//
+// Responsabilidades:
+// - Guardar la lista de avisos visibles (error / éxito / info).
+// - showToast(message, type): agrega un aviso que se quita solo a los
+//   TOAST_DURATION_MS.
+// - dismissToast(id): lo quita antes (botón ×).
+//
+// ¿Quién usa este store?
+// - optimistic.ts → showToast("...", "error") cuando una acción optimista
+//   falla y se deshace. Se llama fuera de React con
+//   useToastStore.getState().showToast(...).
+// - Toaster (layout general) → pinta los avisos.
+
+"use client";
+
+import { create } from "zustand";
+
+// Tiempo que un aviso queda en pantalla.
+export const TOAST_DURATION_MS = 5000;
+
+export type ToastType = "error" | "success" | "info";
+
+export interface Toast {
+  id: number;
+  type: ToastType;
+  message: string;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  showToast: (message: string, type?: ToastType) => void;
+  dismissToast: (id: number) => void;
+}
+
+let nextToastId = 1;
+
+export const useToastStore = create<ToastState>((set, get) => ({
+  toasts: [],
+
+  showToast: (message, type = "info") => {
+    const id = nextToastId++;
+    set({ toasts: [...get().toasts, { id, type, message }] });
+
+    // En el servidor no hay avisos que quitar.
+    if (typeof window !== "undefined") {
+      window.setTimeout(() => get().dismissToast(id), TOAST_DURATION_MS);
+    }
+  },
+
+  dismissToast: (id) => {
+    set({ toasts: get().toasts.filter((toast) => toast.id !== id) });
+  },
+}));